@@ -30,6 +30,11 @@ export default [
         global: 'readonly',
         Promise: 'readonly',
         URL: 'readonly',
+        fetch: 'readonly',
+        Headers: 'readonly',
+        Request: 'readonly',
+        RequestInit: 'readonly',
+        Response: 'readonly',
       },
     },
     plugins: {
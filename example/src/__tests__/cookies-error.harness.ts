@@ -161,6 +161,20 @@ describe('NitroCookies Error Handling', () => {
       expect(cookies['special_cookie'].value).toBe('value with spaces & special=chars');
     });
 
+    test('setSync() should reject spaces in cookie value in strict mode', () => {
+      const cookie = {
+        name: 'special_cookie',
+        value: 'value with spaces',
+      };
+
+      NitroCookies.configure({ validation: 'strict' });
+      try {
+        expect(() => NitroCookies.setSync(VALID_URL, cookie)).toThrow('INVALID_COOKIE');
+      } finally {
+        NitroCookies.configure({ validation: 'off' });
+      }
+    });
+
     test('multiple clearAll() calls should be idempotent', async () => {
       await NitroCookies.set(VALID_URL, { name: 'temp', value: 'temp' });
 
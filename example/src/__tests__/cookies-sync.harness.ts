@@ -375,6 +375,37 @@ describe('NitroCookies Sync API', () => {
       expect(cookies.unicode.value).toBe('hello 世界 🍪');
     });
 
+    test('should reject or encode characters outside the RFC 6265 grammar when enabled', () => {
+      const invalid = [
+        { name: 'spaces', value: 'value with spaces' },
+        { name: 'unicode', value: 'hello 世界 🍪' },
+        { name: 'injection', value: 'a; Domain=evil.example' },
+      ];
+
+      NitroCookies.configure({ validation: 'strict' });
+      try {
+        invalid.forEach((cookie) => {
+          expect(() => NitroCookies.setSync(TEST_URL, cookie)).toThrow('INVALID_COOKIE');
+        });
+        expect(NitroCookies.getSync(TEST_URL)).toEqual({});
+
+        NitroCookies.configure({ validation: 'lenient' });
+        invalid.forEach((cookie) => {
+          NitroCookies.setSync(TEST_URL, cookie);
+        });
+      } finally {
+        NitroCookies.configure({ validation: 'off' });
+      }
+
+      const cookies = NitroCookies.getSync(TEST_URL);
+      expect(cookies.spaces.value).toBe('value%20with%20spaces');
+      expect(cookies.unicode.value).toBe(encodeURIComponent('hello 世界 🍪'));
+      expect(cookies.injection.value).toBe('a%3B%20Domain=evil.example');
+      if (Platform.OS === 'ios') {
+        expect(cookies.injection.domain).toBe('example.com');
+      }
+    });
+
     test('should handle empty cookie values', () => {
       NitroCookies.setSync(TEST_URL, { name: 'empty', value: '' });
       const cookies = NitroCookies.getSync(TEST_URL);
@@ -25,8 +25,11 @@ class NitroCookies : HybridNitroCookiesSpec() {
     // Path attribute
     cookie.path?.let { parts.add("Path=$it") }
 
-    // Domain attribute
-    cookie.domain?.let { parts.add("Domain=$it") }
+    // Domain attribute (omitted for host-only cookies, which CookieManager
+    // then only sends to the exact host of the URL)
+    if (cookie.hostOnly != true) {
+      cookie.domain?.let { parts.add("Domain=$it") }
+    }
 
     // Expires attribute (convert ISO 8601 to RFC 1123)
     cookie.expires?.let { expiresISO ->
@@ -46,6 +49,9 @@ class NitroCookies : HybridNitroCookiesSpec() {
       }
     }
 
+    // Max-Age attribute (takes precedence over Expires)
+    cookie.maxAge?.let { parts.add("Max-Age=${it.toLong()}") }
+
     // Secure flag
     if (cookie.secure == true) {
       parts.add("Secure")
@@ -56,73 +62,31 @@ class NitroCookies : HybridNitroCookiesSpec() {
       parts.add("HttpOnly")
     }
 
-    return parts.joinToString("; ")
-  }
-
-  /** Parse a Set-Cookie header string into Cookie struct */
-  private fun createCookieData(setCookieHeader: String, url: URL): Cookie? {
-    val parts = setCookieHeader.split(";").map { it.trim() }
-    if (parts.isEmpty()) return null
-
-    // First part is name=value
-    val nameValue = parts[0].split("=", limit = 2)
-    if (nameValue.size != 2) return null
-
-    val name = nameValue[0].trim()
-    val value = nameValue[1].trim()
-
-    var path: String? = null
-    var domain: String? = null
-    var expires: String? = null
-    var secure: Boolean? = null
-    var httpOnly: Boolean? = null
-
-    // Parse attributes
-    for (i in 1 until parts.size) {
-      val part = parts[i]
-      when {
-        part.startsWith("Path=", ignoreCase = true) -> {
-          path = part.substring(5).trim()
-        }
-
-        part.startsWith("Domain=", ignoreCase = true) -> {
-          domain = part.substring(7).trim()
-        }
-
-        part.startsWith("Expires=", ignoreCase = true) -> {
-          val expiresRFC = part.substring(8).trim()
-          try {
-            val date = rfc1123Formatter.get()!!.parse(expiresRFC)
-            date?.let { expires = iso8601Formatter.get()!!.format(it) }
-          } catch (e: Exception) {
-            // Invalid date, skip
-          }
+    // SameSite attribute
+    cookie.sameSite?.let {
+      val sameSite =
+        when (it) {
+          CookieSameSite.STRICT -> "Strict"
+          CookieSameSite.LAX -> "Lax"
+          CookieSameSite.NONE -> "None"
         }
+      parts.add("SameSite=$sameSite")
+    }
 
-        part.equals("Secure", ignoreCase = true) -> {
-          secure = true
-        }
+    // Partitioned flag (CHIPS)
+    if (cookie.partitioned == true) {
+      parts.add("Partitioned")
+    }
 
-        part.equals("HttpOnly", ignoreCase = true) -> {
-          httpOnly = true
-        }
-      }
+    // Extension attributes not modeled by Cookie (e.g. Priority=High)
+    cookie.extensions?.forEach { (name, value) ->
+      value.match(
+        { flag -> if (flag) parts.add(name) },
+        { attributeValue -> parts.add("$name=$attributeValue") }
+      )
     }
 
-    // Apply defaults
-    if (path == null) path = "/"
-    if (domain == null) domain = url.host
-
-    return Cookie(
-      name = name,
-      value = value,
-      path = path,
-      domain = domain,
-      version = null,
-      expires = expires,
-      secure = secure,
-      httpOnly = httpOnly
-    )
+    return parts.joinToString("; ")
   }
 
   /** Check if cookie domain matches or is subdomain of URL host Similar to iOS isMatchingDomain */
@@ -174,6 +138,24 @@ class NitroCookies : HybridNitroCookiesSpec() {
     return url
   }
 
+  /** Run one item of a batch operation, reporting a failure instead of throwing */
+  private inline fun batchItem(operation: () -> Boolean): CookieOperationResult {
+    return try {
+      CookieOperationResult(success = operation(), error = null)
+    } catch (e: Exception) {
+      CookieOperationResult(success = false, error = e.message ?: e.toString())
+    }
+  }
+
+  /** Read the cookies of one URL in a batch read, reporting a failure instead of throwing */
+  private fun batchRead(url: String): CookieListResult {
+    return try {
+      CookieListResult(cookies = getSync(url), error = null)
+    } catch (e: Exception) {
+      CookieListResult(cookies = emptyArray(), error = e.message ?: e.toString())
+    }
+  }
+
   // MARK: - Synchronous Cookie Operations
 
   /** Get cookies synchronously for a URL */
@@ -199,10 +181,15 @@ class NitroCookies : HybridNitroCookiesSpec() {
             value = nameValue[1].trim(),
             path = "/",
             domain = urlObj.host,
+            hostOnly = null,
             version = null,
             expires = null,
+            maxAge = null,
             secure = null,
-            httpOnly = null
+            httpOnly = null,
+            sameSite = null,
+            partitioned = null,
+            extensions = null
           )
         )
       }
@@ -229,23 +216,6 @@ class NitroCookies : HybridNitroCookiesSpec() {
     return true
   }
 
-  /** Parse and set cookies from Set-Cookie header synchronously */
-  override fun setFromResponseSync(url: String, value: String): Boolean {
-    validateURL(url) // Validate URL format
-    val cookieManager = CookieManager.getInstance()
-    cookieManager.setAcceptCookie(true)
-
-    // Set-Cookie header can contain multiple cookies
-    val setCookieHeaders = value.split("\n").map { it.trim() }
-    for (header in setCookieHeaders) {
-      if (header.isNotEmpty()) {
-        cookieManager.setCookie(url, header)
-      }
-    }
-
-    return true
-  }
-
   /** Clear a specific cookie by name synchronously */
   override fun clearByNameSync(url: String, name: String): Boolean {
     val urlObj = validateURL(url)
@@ -268,6 +238,21 @@ class NitroCookies : HybridNitroCookiesSpec() {
     return false
   }
 
+  /** Set several cookies synchronously, one result per cookie */
+  override fun setManySync(url: String, cookies: Array<Cookie>): Array<CookieOperationResult> {
+    return cookies.map { cookie -> batchItem { setSync(url, cookie) } }.toTypedArray()
+  }
+
+  /** Get cookies for several URLs synchronously, one result per URL */
+  override fun getManySync(urls: Array<String>): Array<CookieListResult> {
+    return urls.map { url -> batchRead(url) }.toTypedArray()
+  }
+
+  /** Clear several cookies by name synchronously, one result per name */
+  override fun clearByNamesSync(url: String, names: Array<String>): Array<CookieOperationResult> {
+    return names.map { name -> batchItem { clearByNameSync(url, name) } }.toTypedArray()
+  }
+
   // MARK: - Asynchronous Cookie Operations
 
   /** Set a single cookie */
@@ -314,10 +299,15 @@ class NitroCookies : HybridNitroCookiesSpec() {
               value = nameValue[1].trim(),
               path = "/",
               domain = urlObj.host,
+              hostOnly = null,
               version = null,
               expires = null,
+              maxAge = null,
               secure = null,
-              httpOnly = null
+              httpOnly = null,
+              sameSite = null,
+              partitioned = null,
+              extensions = null
             )
           )
         }
@@ -341,27 +331,8 @@ class NitroCookies : HybridNitroCookiesSpec() {
     return promise
   }
 
-  /** Parse and set cookies from Set-Cookie header */
-  override fun setFromResponse(url: String, value: String): Promise<Boolean> {
-    return Promise.async {
-      val urlObj = validateURL(url)
-      val cookieManager = CookieManager.getInstance()
-      cookieManager.setAcceptCookie(true)
-
-      // Set-Cookie header can contain multiple cookies
-      val setCookieHeaders = value.split("\n").map { it.trim() }
-      for (header in setCookieHeaders) {
-        if (header.isNotEmpty()) {
-          cookieManager.setCookie(url, header)
-        }
-      }
-
-      true
-    }
-  }
-
-  /** Make HTTP request and get cookies from response */
-  override fun getFromResponse(url: String): Promise<Array<Cookie>> {
+  /** Make HTTP request and return raw Set-Cookie headers (parsed in JS) */
+  override fun getFromResponse(url: String): Promise<Array<String>> {
     return Promise.async {
       val urlObj = validateURL(url)
       val connection = urlObj.openConnection() as HttpURLConnection
@@ -369,15 +340,8 @@ class NitroCookies : HybridNitroCookiesSpec() {
         connection.requestMethod = "GET"
         connection.connect()
 
-        val cookies = mutableListOf<Cookie>()
         val setCookieHeaders = connection.headerFields["Set-Cookie"] ?: emptyList()
-
-        for (header in setCookieHeaders) {
-          val cookie = createCookieData(header, urlObj)
-          cookie?.let { cookies.add(it) }
-        }
-
-        cookies.toTypedArray()
+        setCookieHeaders.toTypedArray()
       } catch (e: Exception) {
         throw Exception("NETWORK_ERROR: ${e.message}", e)
       } finally {
@@ -417,6 +381,29 @@ class NitroCookies : HybridNitroCookiesSpec() {
     }
   }
 
+  /** Set several cookies, one result per cookie */
+  override fun setMany(
+    url: String,
+    cookies: Array<Cookie>,
+    useWebKit: Boolean?
+  ): Promise<Array<CookieOperationResult>> {
+    return Promise.async { setManySync(url, cookies) }
+  }
+
+  /** Get cookies for several URLs, one result per URL */
+  override fun getMany(urls: Array<String>, useWebKit: Boolean?): Promise<Array<CookieListResult>> {
+    return Promise.async { getManySync(urls) }
+  }
+
+  /** Clear several cookies by name, one result per name */
+  override fun clearByNames(
+    url: String,
+    names: Array<String>,
+    useWebKit: Boolean?
+  ): Promise<Array<CookieOperationResult>> {
+    return Promise.async { clearByNamesSync(url, names) }
+  }
+
   /** Flush cookies to persistent storage (Android only) */
   override fun flush(): Promise<Unit> {
     return Promise.async {
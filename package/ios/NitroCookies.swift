@@ -46,6 +46,17 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         return result
     }
 
+    // MARK: - Response Session
+
+    /// Session for getFromResponse that doesn't store response cookies, which
+    /// would bypass the domain checks and policy applied in the JS layer
+    private static let responseSession: URLSession = {
+        let configuration = URLSessionConfiguration.default
+        configuration.httpCookieStorage = nil
+        configuration.httpShouldSetCookies = false
+        return URLSession(configuration: configuration)
+    }()
+
     // MARK: - Helper Functions
 
     /**
@@ -53,7 +64,16 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
      */
     private func makeHTTPCookie(from cookie: Cookie, url: URL) throws -> HTTPCookie {
         let host = url.host ?? ""
-        let cookieDomain = cookie.domain ?? host
+        // Host-only cookies keep the bare host. Other domains get the leading
+        // dot that Foundation gives a Domain attribute, so they also match
+        // subdomains like on Android.
+        var cookieDomain = cookie.domain ?? host
+        if cookie.hostOnly == true {
+            cookieDomain = host
+        } else if !cookieDomain.hasPrefix(".") && cookieDomain.contains(".")
+                    && !Self.isIPAddress(cookieDomain) {
+            cookieDomain = "." + cookieDomain
+        }
         let cookiePath = cookie.path ?? "/"
 
         var properties: [HTTPCookiePropertyKey: Any] = [
@@ -68,42 +88,72 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
             properties[.expires] = expiresDate
         }
 
+        if let maxAge = cookie.maxAge {
+            properties[.maximumAge] = String(Int(maxAge))
+        }
+
         if cookie.secure == true {
             properties[.secure] = "TRUE"
         }
 
+        // HTTPCookieStringPolicy has no "None" value; omitting the policy is equivalent
+        if let sameSite = cookie.sameSite {
+            switch sameSite {
+            case .strict:
+                properties[.sameSitePolicy] = HTTPCookieStringPolicy.sameSiteStrict
+            case .lax:
+                properties[.sameSitePolicy] = HTTPCookieStringPolicy.sameSiteLax
+            case .none:
+                break
+            }
+        }
+
         guard let httpCookie = HTTPCookie(properties: properties) else {
             throw NSError(domain: "NitroCookies", code: 1,
-                         userInfo: [NSLocalizedDescriptionKey: "Failed to create HTTPCookie"])
+                         userInfo: [NSLocalizedDescriptionKey: "STORAGE_ERROR: Failed to create HTTPCookie"])
         }
 
-        // HTTPCookie(properties:) ignores httpOnly — there is no property key for it.
-        // When httpOnly is requested, rebuild via Set-Cookie header parsing which
-        // correctly handles the HttpOnly attribute, while preserving the original domain.
-        if cookie.httpOnly == true {
+        // HTTPCookie(properties:) ignores httpOnly and partitioned — there are no
+        // property keys for them. When either is requested, rebuild via Set-Cookie
+        // header parsing which handles those attributes, while preserving the original domain.
+        if cookie.httpOnly == true || cookie.partitioned == true {
             let originalDomain = httpCookie.domain
             let safeName = Self.sanitizeCookieToken(httpCookie.name)
             let safeValue = Self.sanitizeCookieToken(httpCookie.value)
             var parts: [String] = ["\(safeName)=\(safeValue)"]
-            parts.append("Domain=\(originalDomain)")
+            // Without a Domain attribute the rebuilt cookie stays host-only
+            if cookie.hostOnly != true {
+                parts.append("Domain=\(originalDomain)")
+            }
             parts.append("Path=\(httpCookie.path)")
             if let expires = httpCookie.expiresDate {
                 parts.append("Expires=\(Self.rfc1123Formatter.string(from: expires))")
             }
+            if let maxAge = cookie.maxAge {
+                parts.append("Max-Age=\(Int(maxAge))")
+            }
             if httpCookie.isSecure {
                 parts.append("Secure")
             }
-            parts.append("HttpOnly")
+            if cookie.httpOnly == true {
+                parts.append("HttpOnly")
+            }
+            if cookie.partitioned == true {
+                parts.append("Partitioned")
+            }
+            if let sameSite = cookie.sameSite {
+                parts.append("SameSite=\(sameSite.stringValue)")
+            }
 
             let setCookieHeader = parts.joined(separator: "; ")
             let headerFields = ["Set-Cookie": setCookieHeader]
             let parsed = HTTPCookie.cookies(withResponseHeaderFields: headerFields, for: url)
 
-            guard let httpOnlyCookie = parsed.first else {
+            guard let parsedCookie = parsed.first else {
                 throw NSError(domain: "NitroCookies", code: 1,
-                             userInfo: [NSLocalizedDescriptionKey: "Failed to create HTTPCookie with HttpOnly"])
+                             userInfo: [NSLocalizedDescriptionKey: "STORAGE_ERROR: Failed to create HTTPCookie from Set-Cookie header"])
             }
-            return httpOnlyCookie
+            return parsedCookie
         }
 
         return httpCookie
@@ -119,20 +169,40 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
 
         // Strip leading dot from domain — NSHTTPCookieStorage and Set-Cookie
         // parsing add a dot prefix per RFC 6265, but callers expect the bare domain.
+        // A domain without the dot was set without a Domain attribute.
         var domain = httpCookie.domain
-        if domain.hasPrefix(".") {
+        let hostOnly = !domain.hasPrefix(".")
+        if !hostOnly {
             domain = String(domain.dropFirst())
         }
 
+        var sameSite: CookieSameSite? = nil
+        switch httpCookie.sameSitePolicy {
+        case HTTPCookieStringPolicy.sameSiteStrict?:
+            sameSite = .strict
+        case HTTPCookieStringPolicy.sameSiteLax?:
+            sameSite = .lax
+        default:
+            sameSite = nil
+        }
+
         return Cookie(
             name: httpCookie.name,
             value: httpCookie.value,
             path: httpCookie.path,
             domain: domain,
+            hostOnly: hostOnly ? true : nil,
             version: String(httpCookie.version),
             expires: expiresString,
+            maxAge: nil,
             secure: httpCookie.isSecure,
-            httpOnly: httpCookie.isHTTPOnly
+            httpOnly: httpCookie.isHTTPOnly,
+            sameSite: sameSite,
+            // Foundation does not expose whether a stored cookie is partitioned
+            partitioned: nil,
+            // Foundation drops attributes it does not model, so unmodeled
+            // Set-Cookie attributes can neither be stored nor read back on iOS
+            extensions: nil
         )
     }
 
@@ -155,13 +225,37 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         return urlHost.hasSuffix("." + cookieDomain)
     }
 
+    /**
+     * Check if a stored cookie applies to a URL host. Foundation stores a
+     * Domain attribute with a leading dot; a domain without one is host-only.
+     */
+    private func isCookieForHost(_ cookie: HTTPCookie, host: String) -> Bool {
+        if cookie.domain.hasPrefix(".") {
+            return isMatchingDomain(cookieDomain: cookie.domain, urlHost: host)
+        }
+        return cookie.domain.lowercased() == host.lowercased()
+    }
+
+    /**
+     * Check if a host is an IPv4 or IPv6 address, which has no subdomains
+     */
+    private static func isIPAddress(_ host: String) -> Bool {
+        if host.contains(":") {
+            return true
+        }
+        let labels = host.split(separator: ".", omittingEmptySubsequences: false)
+        return labels.count == 4 && labels.allSatisfy { label in
+            !label.isEmpty && label.allSatisfy { $0.isASCII && $0.isNumber }
+        }
+    }
+
     /**
      * Validate that cookie domain matches URL host
      */
     private func validateDomain(cookie: Cookie, url: URL) throws {
         guard let host = url.host else {
             throw NSError(domain: "INVALID_URL", code: 1,
-                         userInfo: [NSLocalizedDescriptionKey: "URL has no host"])
+                         userInfo: [NSLocalizedDescriptionKey: "INVALID_URL: URL has no host"])
         }
 
         let cookieDomain = cookie.domain ?? host
@@ -169,7 +263,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         if !isMatchingDomain(cookieDomain: cookieDomain, urlHost: host) {
             throw NSError(domain: "DOMAIN_MISMATCH", code: 2,
                          userInfo: [NSLocalizedDescriptionKey:
-                            "Cookie domain '\(cookieDomain)' does not match URL host '\(host)'"])
+                            "DOMAIN_MISMATCH: Cookie domain '\(cookieDomain)' does not match URL host '\(host)'"])
         }
     }
 
@@ -182,11 +276,18 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
               (scheme == "http" || scheme == "https") else {
             throw NSError(domain: "INVALID_URL", code: 1,
                          userInfo: [NSLocalizedDescriptionKey:
-                            "Invalid URL: '\(urlString)'. URLs must include protocol (http:// or https://)"])
+                            "INVALID_URL: Invalid URL: '\(urlString)'. URLs must include protocol (http:// or https://)"])
         }
         return url
     }
 
+    /**
+     * Error text reported for a failed batch item ("CODE: message")
+     */
+    private func batchErrorMessage(_ error: Error) -> String {
+        return (error as NSError).localizedDescription
+    }
+
     // MARK: - WebKit Main-Thread Helpers
 
     /**
@@ -236,8 +337,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         let url = try validateURL(urlString)
         let allCookies = HTTPCookieStorage.shared.cookies ?? []
         let filteredCookies = allCookies.filter { cookie in
-            self.isMatchingDomain(cookieDomain: cookie.domain,
-                                 urlHost: url.host ?? "")
+            self.isCookieForHost(cookie, host: url.host ?? "")
         }
         return filteredCookies.map { self.createCookieData(from: $0) }
     }
@@ -255,21 +355,6 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         return true
     }
 
-    /**
-     * Parse and set cookies from Set-Cookie header synchronously
-     */
-    public func setFromResponseSync(url urlString: String, value: String) throws -> Bool {
-        let url = try validateURL(urlString)
-        let headerFields = ["Set-Cookie": value]
-        let cookies = HTTPCookie.cookies(withResponseHeaderFields: headerFields, for: url)
-
-        let storage = HTTPCookieStorage.shared
-        for cookie in cookies {
-            storage.setCookie(cookie)
-        }
-        return true
-    }
-
     /**
      * Clear a specific cookie by name synchronously
      */
@@ -291,6 +376,48 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         }
     }
 
+    /**
+     * Set several cookies synchronously, one result per cookie
+     */
+    public func setManySync(url urlString: String, cookies: [Cookie]) throws -> [CookieOperationResult] {
+        return cookies.map { cookie -> CookieOperationResult in
+            do {
+                let stored = try self.setSync(url: urlString, cookie: cookie)
+                return CookieOperationResult(success: stored, error: nil)
+            } catch {
+                return CookieOperationResult(success: false, error: self.batchErrorMessage(error))
+            }
+        }
+    }
+
+    /**
+     * Get cookies for several URLs synchronously, one result per URL
+     */
+    public func getManySync(urls: [String]) throws -> [CookieListResult] {
+        return urls.map { urlString -> CookieListResult in
+            do {
+                let cookies = try self.getSync(url: urlString)
+                return CookieListResult(cookies: cookies, error: nil)
+            } catch {
+                return CookieListResult(cookies: [], error: self.batchErrorMessage(error))
+            }
+        }
+    }
+
+    /**
+     * Clear several cookies by name synchronously, one result per name
+     */
+    public func clearByNamesSync(url urlString: String, names: [String]) throws -> [CookieOperationResult] {
+        return names.map { name -> CookieOperationResult in
+            do {
+                let removed = try self.clearByNameSync(url: urlString, name: name)
+                return CookieOperationResult(success: removed, error: nil)
+            } catch {
+                return CookieOperationResult(success: false, error: self.batchErrorMessage(error))
+            }
+        }
+    }
+
     // MARK: - Asynchronous Cookie Operations
 
     /**
@@ -313,7 +440,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
                 } else {
                     throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
                                  userInfo: [NSLocalizedDescriptionKey:
-                                    "WebKit requires iOS 11 or higher"])
+                                    "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
                 }
             } else {
                 // Use NSHTTPCookieStorage
@@ -336,20 +463,18 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
                         store.getAllCookies { cookies in done(cookies) }
                     }
                     let filteredCookies = httpCookies.filter { cookie in
-                        self.isMatchingDomain(cookieDomain: cookie.domain,
-                                             urlHost: url.host ?? "")
+                        self.isCookieForHost(cookie, host: url.host ?? "")
                     }
                     return filteredCookies.map { self.createCookieData(from: $0) }
                 } else {
                     throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
                                  userInfo: [NSLocalizedDescriptionKey:
-                                    "WebKit requires iOS 11 or higher"])
+                                    "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
                 }
             } else {
                 let allCookies = HTTPCookieStorage.shared.cookies ?? []
                 let filteredCookies = allCookies.filter { cookie in
-                    self.isMatchingDomain(cookieDomain: cookie.domain,
-                                         urlHost: url.host ?? "")
+                    self.isCookieForHost(cookie, host: url.host ?? "")
                 }
                 return filteredCookies.map { self.createCookieData(from: $0) }
             }
@@ -378,7 +503,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
                 } else {
                     throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
                                   userInfo: [NSLocalizedDescriptionKey:
-                                    "WebKit requires iOS 11 or higher"])
+                                    "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
                 }
             } else {
                 let storage = HTTPCookieStorage.shared
@@ -392,40 +517,39 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
     }
 
     /**
-     * Parse and set cookies from Set-Cookie header
+     * Make HTTP request and return raw Set-Cookie headers (parsed in JS)
      */
-    public func setFromResponse(url urlString: String, value: String) throws -> Promise<Bool> {
+    public func getFromResponse(url urlString: String) throws -> Promise<[String]> {
         return Promise.async {
             let url = try self.validateURL(urlString)
-            let headerFields = ["Set-Cookie": value]
-            let cookies = HTTPCookie.cookies(withResponseHeaderFields: headerFields, for: url)
 
-            let storage = HTTPCookieStorage.shared
-            for cookie in cookies {
-                storage.setCookie(cookie)
+            // Send the stored cookies like URLSession.shared does
+            var request = URLRequest(url: url)
+            let storedCookies = HTTPCookieStorage.shared.cookies(for: url) ?? []
+            for (field, value) in HTTPCookie.requestHeaderFields(with: storedCookies) {
+                request.setValue(value, forHTTPHeaderField: field)
             }
-            return true
-        }
-    }
-
-    /**
-     * Make HTTP request and get cookies from response
-     */
-    public func getFromResponse(url urlString: String) throws -> Promise<[Cookie]> {
-        return Promise.async {
-            let url = try self.validateURL(urlString)
 
-            let (_, response) = try await URLSession.shared.data(from: url)
+            let response: URLResponse
+            do {
+                (_, response) = try await Self.responseSession.data(for: request)
+            } catch {
+                throw NSError(domain: "NETWORK_ERROR", code: 4,
+                              userInfo: [NSLocalizedDescriptionKey:
+                                "NETWORK_ERROR: \(error.localizedDescription)"])
+            }
 
             guard let httpResponse = response as? HTTPURLResponse else {
                 throw NSError(domain: "NETWORK_ERROR", code: 4,
-                              userInfo: [NSLocalizedDescriptionKey: "Not HTTP response"])
+                              userInfo: [NSLocalizedDescriptionKey: "NETWORK_ERROR: Not HTTP response"])
             }
 
-            let headerFields = httpResponse.allHeaderFields as? [String: String] ?? [:]
-            let cookies = HTTPCookie.cookies(withResponseHeaderFields: headerFields, for: url)
-
-            return cookies.map { self.createCookieData(from: $0) }
+            // Multiple Set-Cookie headers arrive comma-folded into one field;
+            // the JS layer splits them back into individual cookies.
+            guard let setCookie = httpResponse.value(forHTTPHeaderField: "Set-Cookie") else {
+                return []
+            }
+            return [setCookie]
         }
     }
 
@@ -443,7 +567,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
                 } else {
                     throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
                                   userInfo: [NSLocalizedDescriptionKey:
-                                    "WebKit requires iOS 11 or higher"])
+                                    "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
                 }
             } else {
                 let cookies = HTTPCookieStorage.shared.cookies ?? []
@@ -481,7 +605,7 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
                 } else {
                     throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
                                  userInfo: [NSLocalizedDescriptionKey:
-                                    "WebKit requires iOS 11 or higher"])
+                                    "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
                 }
             } else {
                 let storage = HTTPCookieStorage.shared
@@ -502,6 +626,133 @@ public class HybridNitroCookies: HybridNitroCookiesSpec {
         }
     }
 
+    /**
+     * Set several cookies, one result per cookie
+     * WebKit writes happen in a single main-thread hop
+     */
+    public func setMany(url urlString: String, cookies: [Cookie], useWebKit: Bool?) throws -> Promise<[CookieOperationResult]> {
+        return Promise.async {
+            if useWebKit != true {
+                return try self.setManySync(url: urlString, cookies: cookies)
+            }
+
+            if #available(iOS 11.0, *) {
+                var results: [CookieOperationResult] = []
+                var httpCookies: [HTTPCookie] = []
+                for cookie in cookies {
+                    do {
+                        let url = try self.validateURL(urlString)
+                        try self.validateDomain(cookie: cookie, url: url)
+                        httpCookies.append(try self.makeHTTPCookie(from: cookie, url: url))
+                        results.append(CookieOperationResult(success: true, error: nil))
+                    } catch {
+                        results.append(CookieOperationResult(success: false, error: self.batchErrorMessage(error)))
+                    }
+                }
+
+                let cookiesToSet = httpCookies
+                await self.withWebKitStoreVoid { store, done in
+                    let group = DispatchGroup()
+                    for httpCookie in cookiesToSet {
+                        group.enter()
+                        store.setCookie(httpCookie) { group.leave() }
+                    }
+                    group.notify(queue: .main) { done() }
+                }
+                return results
+            } else {
+                throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
+                              userInfo: [NSLocalizedDescriptionKey:
+                                "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
+            }
+        }
+    }
+
+    /**
+     * Get cookies for several URLs, one result per URL
+     * The WebKit store is read once for all URLs
+     */
+    public func getMany(urls: [String], useWebKit: Bool?) throws -> Promise<[CookieListResult]> {
+        return Promise.async {
+            if useWebKit != true {
+                return try self.getManySync(urls: urls)
+            }
+
+            if #available(iOS 11.0, *) {
+                let httpCookies: [HTTPCookie] = await self.withWebKitStore { store, done in
+                    store.getAllCookies { cookies in done(cookies) }
+                }
+                return urls.map { urlString -> CookieListResult in
+                    do {
+                        let url = try self.validateURL(urlString)
+                        let filteredCookies = httpCookies.filter { cookie in
+                            self.isCookieForHost(cookie, host: url.host ?? "")
+                        }
+                        return CookieListResult(cookies: filteredCookies.map { self.createCookieData(from: $0) },
+                                                error: nil)
+                    } catch {
+                        return CookieListResult(cookies: [], error: self.batchErrorMessage(error))
+                    }
+                }
+            } else {
+                throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
+                              userInfo: [NSLocalizedDescriptionKey:
+                                "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
+            }
+        }
+    }
+
+    /**
+     * Clear several cookies by name, one result per name
+     * The WebKit store is read once and matching cookies are deleted in a single main-thread hop
+     */
+    public func clearByNames(url urlString: String, names: [String], useWebKit: Bool?) throws -> Promise<[CookieOperationResult]> {
+        return Promise.async {
+            if useWebKit != true {
+                return try self.clearByNamesSync(url: urlString, names: names)
+            }
+
+            if #available(iOS 11.0, *) {
+                var remainingCookies: [HTTPCookie] = await self.withWebKitStore { store, done in
+                    store.getAllCookies { cookies in done(cookies) }
+                }
+                var cookiesToDelete: [HTTPCookie] = []
+                var results: [CookieOperationResult] = []
+                for name in names {
+                    do {
+                        let url = try self.validateURL(urlString)
+                        let index = remainingCookies.firstIndex { cookie in
+                            cookie.name == name &&
+                            self.isMatchingDomain(cookieDomain: cookie.domain,
+                                                 urlHost: url.host ?? "")
+                        }
+                        if let index = index {
+                            cookiesToDelete.append(remainingCookies.remove(at: index))
+                        }
+                        results.append(CookieOperationResult(success: index != nil, error: nil))
+                    } catch {
+                        results.append(CookieOperationResult(success: false, error: self.batchErrorMessage(error)))
+                    }
+                }
+
+                let deletions = cookiesToDelete
+                await self.withWebKitStoreVoid { store, done in
+                    let group = DispatchGroup()
+                    for cookie in deletions {
+                        group.enter()
+                        store.delete(cookie) { group.leave() }
+                    }
+                    group.notify(queue: .main) { done() }
+                }
+                return results
+            } else {
+                throw NSError(domain: "WEBKIT_UNAVAILABLE", code: 3,
+                              userInfo: [NSLocalizedDescriptionKey:
+                                "WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher"])
+            }
+        }
+    }
+
     /**
      * Flush cookies (Android only - no-op on iOS)
      */
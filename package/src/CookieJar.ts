@@ -0,0 +1,267 @@
+/**
+ * In-memory cookie store implementing the RFC 6265 §5.3 storage model
+ *
+ * Runs entirely in JavaScript, so cookie behavior can be previewed, tested
+ * and checked before anything is written to the native store.
+ */
+
+import { NitroCookieError } from './errors';
+import { getExpiryTime, isMatchingDomain, isMatchingPath } from './matching';
+import { defaultPath, parseSetCookieEntry } from './parser';
+import { toCookieHeader } from './serializer';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+import type { RequestUrl } from './url';
+import { validateCookie } from './validation';
+
+/**
+ * Options for creating a CookieJar
+ */
+export interface CookieJarOptions {
+  /**
+   * Clock used for Max-Age and expiry checks, in milliseconds since the epoch
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+interface JarEntry {
+  cookie: Cookie;
+  hostOnly: boolean;
+  expiresAt?: number;
+  creationTime: number;
+  // Breaks creation-time ties between cookies stored in the same millisecond
+  sequence: number;
+}
+
+const IPV4_ADDRESS = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+function isIpAddress(host: string): boolean {
+  return host.startsWith('[') || IPV4_ADDRESS.test(host);
+}
+
+function domainMatches(entry: JarEntry, host: string): boolean {
+  if (entry.hostOnly || isIpAddress(host)) {
+    return entry.cookie.domain === host;
+  }
+  return isMatchingDomain(entry.cookie.domain!, host);
+}
+
+function matches(entry: JarEntry, url: RequestUrl): boolean {
+  return (
+    domainMatches(entry, url.host) &&
+    isMatchingPath(entry.cookie.path!, url.path) &&
+    (entry.cookie.secure !== true || url.protocol === 'https')
+  );
+}
+
+/**
+ * Cookie store following RFC 6265 §5.3 (storage) and §5.4 (retrieval).
+ *
+ * - Cookies without a domain are host-only and are only sent to the exact
+ *   host that set them; cookies with a domain are also sent to subdomains.
+ * - A cookie replaces any stored cookie with the same name, domain and path,
+ *   keeping the original creation time.
+ * - Expired cookies are evicted whenever the jar is accessed, and storing an
+ *   already-expired cookie deletes the matching stored cookie.
+ *
+ * Public suffixes are not checked, so a cookie for a domain such as "co.uk"
+ * is accepted if the host matches.
+ *
+ * @example
+ * ```typescript
+ * const jar = new CookieJar();
+ * jar.setCookie('https://example.com/login', 'session=abc; Path=/; Secure');
+ * jar.getCookieHeader('https://example.com/account'); // 'session=abc'
+ * ```
+ */
+export class CookieJar {
+  private entries: JarEntry[] = [];
+  private nextSequence = 0;
+  private readonly now: () => number;
+
+  constructor(options: CookieJarOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Store a cookie received from a URL.
+   *
+   * A cookie without `domain` (or a Set-Cookie header without a Domain
+   * attribute) is stored as host-only. `maxAge` is resolved into an absolute
+   * `expires` date when the cookie is stored.
+   *
+   * @param url - The URL the cookie was received from
+   * @param cookie - A Cookie object or a single Set-Cookie header value
+   * @returns The stored cookie, or undefined if the cookie was already expired
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   * @throws {NitroCookieError} PARSE_ERROR - Set-Cookie header is malformed
+   * @throws {NitroCookieError} INVALID_COOKIE - Cookie attributes are invalid
+   * @throws {NitroCookieError} DOMAIN_MISMATCH - Cookie domain doesn't match the URL host
+   */
+  setCookie(url: string, cookie: Cookie | string): Cookie | undefined {
+    const requestUrl = parseRequestUrl(url);
+
+    let parsed: Cookie;
+    let hostOnly: boolean;
+    if (typeof cookie === 'string') {
+      ({ cookie: parsed, hostOnly } = parseSetCookieEntry(cookie, url));
+    } else {
+      parsed = { ...cookie };
+      hostOnly = cookie.hostOnly === true || !cookie.domain;
+    }
+    validateCookie(parsed);
+
+    const domain = hostOnly
+      ? requestUrl.host
+      : parsed.domain!.replace(/^\./, '').toLowerCase();
+    if (
+      !hostOnly &&
+      !(isIpAddress(requestUrl.host)
+        ? domain === requestUrl.host
+        : isMatchingDomain(domain, requestUrl.host))
+    ) {
+      throw new NitroCookieError(
+        CookieErrorCode.DOMAIN_MISMATCH,
+        `Cookie domain '${domain}' does not match URL host '${requestUrl.host}'`,
+        { url, cookieName: parsed.name }
+      );
+    }
+
+    const now = this.now();
+    const expiresAt = getExpiryTime(parsed, now);
+    const stored: Cookie = {
+      ...parsed,
+      domain,
+      path: parsed.path?.startsWith('/')
+        ? parsed.path
+        : defaultPath(requestUrl.path),
+    };
+    delete stored.maxAge;
+    if (expiresAt !== undefined) {
+      stored.expires = new Date(expiresAt).toISOString();
+    }
+
+    this.evictExpired(now);
+    const index = this.entries.findIndex(
+      (entry) =>
+        entry.cookie.name === stored.name &&
+        entry.cookie.domain === stored.domain &&
+        entry.cookie.path === stored.path
+    );
+    const existing = index === -1 ? undefined : this.entries[index];
+
+    if (expiresAt !== undefined && expiresAt <= now) {
+      if (index !== -1) {
+        this.entries.splice(index, 1);
+      }
+      return undefined;
+    }
+
+    const entry: JarEntry = {
+      cookie: stored,
+      hostOnly,
+      expiresAt,
+      creationTime: existing?.creationTime ?? now,
+      sequence: existing?.sequence ?? this.nextSequence++,
+    };
+    if (index === -1) {
+      this.entries.push(entry);
+    } else {
+      this.entries[index] = entry;
+    }
+    return { ...stored };
+  }
+
+  /**
+   * Get the cookies that would be sent with a request to a URL.
+   *
+   * Cookies are ordered as RFC 6265 §5.4 recommends: longer paths first,
+   * then earlier creation times.
+   *
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   */
+  getCookiesForUrl(url: string): Cookie[] {
+    const requestUrl = parseRequestUrl(url);
+    this.evictExpired(this.now());
+
+    return this.entries
+      .filter((entry) => matches(entry, requestUrl))
+      .sort(
+        (a, b) =>
+          b.cookie.path!.length - a.cookie.path!.length ||
+          a.creationTime - b.creationTime ||
+          a.sequence - b.sequence
+      )
+      .map((entry) => ({ ...entry.cookie }));
+  }
+
+  /**
+   * Build the Cookie request-header value for a URL
+   *
+   * @returns A Cookie header value, empty if no cookies match
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   */
+  getCookieHeader(url: string): string {
+    return toCookieHeader(this.getCookiesForUrl(url));
+  }
+
+  /**
+   * Get every unexpired cookie in the jar, in storage order
+   */
+  getAllCookies(): Cookie[] {
+    this.evictExpired(this.now());
+    return this.entries.map((entry) => ({ ...entry.cookie }));
+  }
+
+  /**
+   * Remove cookies with the given name whose domain matches the URL host.
+   *
+   * Like `clearByName`, the cookie path is not considered.
+   *
+   * @returns true if any cookie was removed
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   */
+  removeCookie(url: string, name: string): boolean {
+    const requestUrl = parseRequestUrl(url);
+    this.evictExpired(this.now());
+
+    const count = this.entries.length;
+    this.entries = this.entries.filter(
+      (entry) =>
+        entry.cookie.name !== name || !domainMatches(entry, requestUrl.host)
+    );
+    return this.entries.length !== count;
+  }
+
+  /**
+   * Remove cookies without an expiry, as a user agent does when a session ends
+   *
+   * @returns true if any cookie was removed
+   */
+  removeSessionCookies(): boolean {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(
+      (entry) => entry.expiresAt !== undefined
+    );
+    return this.entries.length !== count;
+  }
+
+  /** Remove every cookie */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /** Number of unexpired cookies in the jar */
+  get size(): number {
+    this.evictExpired(this.now());
+    return this.entries.length;
+  }
+
+  private evictExpired(now: number): void {
+    this.entries = this.entries.filter(
+      (entry) => entry.expiresAt === undefined || entry.expiresAt > now
+    );
+  }
+}
@@ -10,6 +10,28 @@ import type { Cookie } from './types';
 
 // Cookies dictionary will be returned as an array of cookies
 // JavaScript layer will convert to dictionary format for backwards compatibility
+// Set-Cookie headers are parsed in the JavaScript layer (see parser.ts)
+
+/**
+ * Result of one item of a batch write or clear
+ *
+ * Batch methods report failures per item instead of failing the whole batch.
+ * `error` carries the same "CODE: message" text a single-item call would throw.
+ */
+export interface CookieOperationResult {
+  /** true if the cookie was stored (set) or found and removed (clear) */
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Result of reading the cookies of one URL in a batch read
+ */
+export interface CookieListResult {
+  /** Cookies for the URL (empty if the read failed) */
+  cookies: Cookie[];
+  error?: string;
+}
 
 /**
  * NitroCookies HybridObject
@@ -55,16 +77,6 @@ export interface NitroCookies extends HybridObject<{
    */
   setSync(url: string, cookie: Cookie): boolean;
 
-  /**
-   * Parse and set cookies from Set-Cookie header synchronously
-   *
-   * @param url - The URL associated with the Set-Cookie header
-   * @param value - The raw Set-Cookie header value
-   * @returns true on success
-   * @throws Error if URL is invalid
-   */
-  setFromResponseSync(url: string, value: string): boolean;
-
   /**
    * Clear a specific cookie by name synchronously
    *
@@ -75,6 +87,32 @@ export interface NitroCookies extends HybridObject<{
    */
   clearByNameSync(url: string, name: string): boolean;
 
+  /**
+   * Set several cookies for a URL synchronously in one call
+   *
+   * @param url - The URL for which to set the cookies (must include protocol)
+   * @param cookies - The cookies to store
+   * @returns One result per cookie, in order
+   */
+  setManySync(url: string, cookies: Cookie[]): CookieOperationResult[];
+
+  /**
+   * Get cookies for several URLs synchronously in one call
+   *
+   * @param urls - The URLs to match cookies against (must include protocol)
+   * @returns One result per URL, in order
+   */
+  getManySync(urls: string[]): CookieListResult[];
+
+  /**
+   * Clear several cookies by name synchronously in one call
+   *
+   * @param url - The URL to match the cookie domain
+   * @param names - The names of the cookies to remove
+   * @returns One result per name, in order
+   */
+  clearByNamesSync(url: string, names: string[]): CookieOperationResult[];
+
   // ========================================
   // ASYNCHRONOUS METHODS
   // ========================================
@@ -107,21 +145,15 @@ export interface NitroCookies extends HybridObject<{
   clearAll(useWebKit?: boolean): Promise<boolean>;
 
   /**
-   * Parse and store cookies from HTTP Set-Cookie header string
+   * Make HTTP request to URL and return the raw Set-Cookie response headers
    *
-   * @param url - The URL associated with the Set-Cookie header
-   * @param value - The raw Set-Cookie header value
-   * @returns Promise that resolves to true on success
-   */
-  setFromResponse(url: string, value: string): Promise<boolean>;
-
-  /**
-   * Make HTTP request to URL and extract cookies from response headers
+   * Parsing happens in the JavaScript layer (see `parseSetCookie`) so that
+   * every platform interprets Set-Cookie headers identically.
    *
    * @param url - The URL to request (must include protocol)
-   * @returns Promise that resolves to array of cookies from response
+   * @returns Promise that resolves to the raw Set-Cookie header values
    */
-  getFromResponse(url: string): Promise<Cookie[]>;
+  getFromResponse(url: string): Promise<string[]>;
 
   /**
    * Get ALL cookies from storage regardless of domain (iOS only)
@@ -141,6 +173,43 @@ export interface NitroCookies extends HybridObject<{
    */
   clearByName(url: string, name: string, useWebKit?: boolean): Promise<boolean>;
 
+  /**
+   * Set several cookies for a URL in one call
+   *
+   * @param url - The URL for which to set the cookies (must include protocol)
+   * @param cookies - The cookies to store
+   * @param useWebKit - (iOS only) If true, use WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per cookie, in order
+   */
+  setMany(
+    url: string,
+    cookies: Cookie[],
+    useWebKit?: boolean
+  ): Promise<CookieOperationResult[]>;
+
+  /**
+   * Get cookies for several URLs in one call
+   *
+   * @param urls - The URLs to match cookies against (must include protocol)
+   * @param useWebKit - (iOS only) If true, retrieve from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per URL, in order
+   */
+  getMany(urls: string[], useWebKit?: boolean): Promise<CookieListResult[]>;
+
+  /**
+   * Clear several cookies by name in one call
+   *
+   * @param url - The URL to match the cookie domain
+   * @param names - The names of the cookies to remove
+   * @param useWebKit - (iOS only) If true, remove from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per name, in order
+   */
+  clearByNames(
+    url: string,
+    names: string[],
+    useWebKit?: boolean
+  ): Promise<CookieOperationResult[]>;
+
   /**
    * Flush in-memory cookies to persistent storage (Android only)
    *
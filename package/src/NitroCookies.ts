@@ -0,0 +1,1729 @@
+import { NitroModules } from 'react-native-nitro-modules';
+import type {
+  CookieListResult,
+  CookieOperationResult,
+  NitroCookies as NitroCookiesType,
+} from './NitroCookies.nitro';
+import { CookieErrorCode } from './types';
+import type {
+  Cookie,
+  CookieClearResult,
+  Cookies,
+  CookieGetResult,
+  CookieSetResult,
+} from './types';
+import {
+  parseResponseCookie,
+  parseSetCookieHeaders,
+  splitSetCookieHeader,
+} from './parser';
+import {
+  normalizeNameAndValue,
+  validateCookie,
+  validateCookieDomain,
+} from './validation';
+import { enforcePolicy } from './policy';
+import { createLimitCheck } from './limits';
+import type { CookieEviction } from './limits';
+import { applyConfiguration } from './config';
+import type { CookieConfiguration } from './config';
+import {
+  NitroCookieError,
+  toCookieError,
+  withCookieErrors,
+  withCookieErrorsAsync,
+} from './errors';
+import { notifyChange, subscribeToChanges } from './changes';
+import type {
+  CookieChangeFilter,
+  CookieChangeListener,
+  CookieStore,
+} from './changes';
+import {
+  clearTrackedOrigins,
+  getTrackedOrigins,
+  isOriginTrackingEnabled,
+  registerOrigin,
+  setOriginTracking,
+  trackOrigin,
+} from './origins';
+import { mergeAttributes, setAttributeTracking } from './metadata';
+import { getQueryUrl, matchesQuery } from './query';
+import type { CookieQuery } from './query';
+import { createSnapshot, parseSnapshot, parseSnapshotCookie } from './snapshot';
+import type { CookieSnapshot } from './snapshot';
+import { NETSCAPE_HEADER, parseNetscapeLine, toNetscapeLine } from './netscape';
+import { readHarCookies, toHarCookie } from './har';
+import type { HarCookie, HarImportOptions, HarLog } from './har';
+import { compareStores, diffCookies, filterByNames } from './sync';
+import type {
+  CookieStoreReport,
+  CookieStoreSelection,
+  CookieSyncOptions,
+  CookieSyncResult,
+} from './sync';
+import { startPersistence } from './persistence';
+import type {
+  CookiePersistence,
+  CookiePersistenceOptions,
+} from './persistence';
+import type {
+  CookieExportOptions,
+  CookieImportEntry,
+  CookieImportOptions,
+  CookieImportResult,
+} from './transfer';
+import { getExpiryTime } from './matching';
+import { getCookieUrl } from './url';
+
+const NitroCookiesHybridObject =
+  NitroModules.createHybridObject<NitroCookiesType>('NitroCookies');
+
+function storeFor(useWebKit: boolean | undefined): CookieStore {
+  return useWebKit ? 'webkit' : 'http';
+}
+
+function cookiesToDictionary(cookies: Cookie[]): Cookies {
+  const result: Cookies = {};
+  for (const cookie of cookies) {
+    result[cookie.name] = cookie;
+  }
+  return result;
+}
+
+// Reported when a native batch returns fewer results than items
+const MISSING_BATCH_RESULT = 'STORAGE_ERROR: No result for batch item';
+
+/**
+ * Read every cookie in a store.
+ *
+ * Where the platform can't enumerate its store (Android), the tracked origins
+ * and `fallbackUrls` are read instead. Cookies visible from several URLs are
+ * returned once.
+ *
+ * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No getAll, origin tracking
+ *   disabled and no fallback URLs
+ */
+async function readAllCookies(
+  useWebKit: boolean,
+  fallbackUrls: string[] = []
+): Promise<Cookie[]> {
+  try {
+    return await NitroCookiesHybridObject.getAll(useWebKit);
+  } catch (error) {
+    const cookieError = toCookieError(error);
+    if (cookieError.code !== CookieErrorCode.PLATFORM_UNSUPPORTED) {
+      throw cookieError;
+    }
+    if (!isOriginTrackingEnabled() && fallbackUrls.length === 0) {
+      throw new NitroCookieError(
+        CookieErrorCode.PLATFORM_UNSUPPORTED,
+        'Cookies cannot be enumerated on this platform. Enable origin tracking with NitroCookies.trackOrigins()',
+        { cause: error }
+      );
+    }
+  }
+
+  const urls = [
+    ...new Set([
+      ...(isOriginTrackingEnabled() ? getTrackedOrigins() : []),
+      ...fallbackUrls,
+    ]),
+  ];
+  if (urls.length === 0) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const cookies: Cookie[] = [];
+  const results = await NitroCookiesHybridObject.getMany(urls, useWebKit);
+  for (const [index, result] of results.entries()) {
+    if (result.error !== undefined) {
+      throw toCookieError(result.error);
+    }
+    for (const cookie of mergeAttributes(urls[index]!, result.cookies)) {
+      const key = [cookie.name, cookie.domain, cookie.path, cookie.value].join(
+        '\0'
+      );
+      if (!seen.has(key)) {
+        seen.add(key);
+        cookies.push(cookie);
+      }
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Read the cookies selected by export options
+ */
+async function readExportedCookies(
+  options: CookieExportOptions
+): Promise<Cookie[]> {
+  const { domains } = options;
+  const cookies = await readAllCookies(
+    options.store === 'webkit',
+    (domains ?? []).map((domain) => getQueryUrl({ domain })!)
+  );
+  if (domains === undefined) {
+    return cookies;
+  }
+  const now = Date.now();
+  return cookies.filter((cookie) =>
+    domains.some((domain) => matchesQuery(cookie, { domain }, now))
+  );
+}
+
+/**
+ * Read the cookies of one store selected by domain and name
+ */
+async function readStoreCookies(
+  store: CookieStore,
+  selection: CookieStoreSelection
+): Promise<Cookie[]> {
+  const cookies = await readExportedCookies({
+    domains: selection.domains,
+    store,
+  });
+  return filterByNames(cookies, selection.names);
+}
+
+/**
+ * Write imported cookies to `https://<domain><path>`, grouping them by URL
+ * so that each group takes a single native call. Entries that could not be
+ * parsed are reported as failures.
+ */
+async function importCookies(
+  entries: CookieImportEntry[],
+  options: CookieImportOptions
+): Promise<CookieImportResult> {
+  const useWebKit = options.store === 'webkit';
+  const now = Date.now();
+  const result: CookieImportResult = { imported: 0, skipped: 0, failures: [] };
+
+  const batches = new Map<string, Array<[number, Cookie]>>();
+  for (const entry of entries) {
+    if ('error' in entry) {
+      result.failures.push(entry);
+      continue;
+    }
+    const { index, cookie } = entry;
+    const expiresAt = getExpiryTime(cookie, now);
+    if (
+      options.skipExpired !== false &&
+      expiresAt !== undefined &&
+      expiresAt <= now
+    ) {
+      result.skipped++;
+      continue;
+    }
+    const url = getCookieUrl(cookie);
+    const batch = batches.get(url) ?? [];
+    batch.push([index, cookie]);
+    batches.set(url, batch);
+  }
+
+  if (options.mode === 'replace') {
+    await NitroCookies.clearAll(useWebKit);
+  }
+  for (const [url, batch] of batches) {
+    let results: CookieSetResult[];
+    try {
+      results = await NitroCookies.setMany(
+        url,
+        batch.map(([, cookie]) => cookie),
+        useWebKit
+      );
+    } catch (error) {
+      const cookieError = toCookieError(error);
+      results = batch.map(([, cookie]) => ({
+        name: cookie.name,
+        success: false,
+        error: cookieError,
+      }));
+    }
+    results.forEach(({ name, success, error }, i) => {
+      if (success) {
+        result.imported++;
+      } else {
+        result.failures.push({
+          index: batch[i]![0],
+          name,
+          error: error ?? toCookieError(MISSING_BATCH_RESULT),
+        });
+      }
+    });
+  }
+  result.failures.sort((a, b) => a.index - b.index);
+  return result;
+}
+
+/**
+ * Remove the cookies evicted to stay under the configured count limits.
+ *
+ * clearByName ignores the path and could remove other cookies with the same
+ * name, so each cookie is overwritten with an expired one for its exact
+ * domain and path instead.
+ */
+function evictCookiesSync(evictions: CookieEviction[]): void {
+  for (const { url, cookie } of evictions) {
+    NitroCookiesHybridObject.setSync(url, { ...cookie, value: '', maxAge: 0 });
+    notifyChange({ type: 'evicted', url, cookie, store: 'http' });
+  }
+}
+
+async function evictCookies(
+  evictions: CookieEviction[],
+  useWebKit: boolean | undefined
+): Promise<void> {
+  for (const { url, cookie } of evictions) {
+    await NitroCookiesHybridObject.set(
+      url,
+      { ...cookie, value: '', maxAge: 0 },
+      useWebKit ?? false
+    );
+    notifyChange({
+      type: 'evicted',
+      url,
+      cookie,
+      store: storeFor(useWebKit),
+    });
+  }
+}
+
+/**
+ * Validate a batch of cookies before the native call.
+ *
+ * Returns a result slot per cookie (failed for invalid cookies), the valid
+ * cookies to send to the native store and the evictions each of them causes.
+ */
+function prepareSetMany(
+  url: string,
+  cookies: Cookie[],
+  store: CookieStore
+): {
+  results: CookieSetResult[];
+  valid: Array<[number, Cookie]>;
+  evictions: CookieEviction[][];
+} {
+  const results: CookieSetResult[] = [];
+  const valid: Array<[number, Cookie]> = [];
+  const evictions: CookieEviction[][] = [];
+  const checkLimits = createLimitCheck(store);
+  cookies.forEach((cookie, index) => {
+    try {
+      const stored = normalizeNameAndValue(cookie);
+      validateCookie(stored);
+      enforcePolicy(url, stored, 'app');
+      evictions.push(checkLimits(url, stored));
+      valid.push([index, stored]);
+      results.push({ name: cookie.name, success: false });
+    } catch (error) {
+      results.push({
+        name: cookie.name,
+        success: false,
+        error: toCookieError(error, { url, cookieName: cookie.name }),
+      });
+    }
+  });
+  return { results, valid, evictions };
+}
+
+/**
+ * Merge native batch write results into the prepared result slots and emit
+ * a change event for every stored cookie.
+ */
+function completeSetMany(
+  url: string,
+  prepared: ReturnType<typeof prepareSetMany>,
+  nativeResults: CookieOperationResult[],
+  store: CookieStore
+): CookieSetResult[] {
+  const { results, valid } = prepared;
+  valid.forEach(([index, cookie], i) => {
+    const result = nativeResults[i];
+    if (result?.success) {
+      results[index] = { name: cookie.name, success: true };
+      notifyChange({ type: 'set', url, cookie, store });
+    } else {
+      results[index] = {
+        name: cookie.name,
+        success: false,
+        error: toCookieError(result?.error ?? MISSING_BATCH_RESULT, {
+          url,
+          cookieName: cookie.name,
+        }),
+      };
+    }
+  });
+  return results;
+}
+
+/**
+ * Get the evictions caused by the cookies of a batch that were stored
+ */
+function getStoredEvictions(
+  prepared: ReturnType<typeof prepareSetMany>,
+  results: CookieSetResult[]
+): CookieEviction[] {
+  return prepared.valid.flatMap(([index], i) =>
+    results[index]!.success ? prepared.evictions[i]! : []
+  );
+}
+
+function toGetResults(
+  urls: string[],
+  nativeResults: CookieListResult[]
+): CookieGetResult[] {
+  return urls.map((url, i) => {
+    const result = nativeResults[i];
+    if (result && result.error === undefined) {
+      return {
+        url,
+        cookies: cookiesToDictionary(mergeAttributes(url, result.cookies)),
+      };
+    }
+    return {
+      url,
+      cookies: {},
+      error: toCookieError(result?.error ?? MISSING_BATCH_RESULT, { url }),
+    };
+  });
+}
+
+function toClearResults(
+  url: string,
+  names: string[],
+  nativeResults: CookieOperationResult[],
+  store: CookieStore
+): CookieClearResult[] {
+  return names.map((name, i) => {
+    const result = nativeResults[i];
+    if (result && result.error === undefined) {
+      if (result.success) {
+        notifyChange({ type: 'removed', url, cookie: { name }, store });
+      }
+      return { name, removed: result.success };
+    }
+    return {
+      name,
+      removed: false,
+      error: toCookieError(result?.error ?? MISSING_BATCH_RESULT, {
+        url,
+        cookieName: name,
+      }),
+    };
+  });
+}
+
+/**
+ * Main NitroCookies export object with all cookie management methods.
+ *
+ * Supports both synchronous and asynchronous APIs:
+ * - Synchronous methods (getSync, setSync, etc.): Direct return values, no Promise overhead
+ * - Asynchronous methods (get, set, etc.): Return Promises for WebKit and network operations
+ *
+ * Every method throws (or rejects with) a `NitroCookieError` whose `code` is a
+ * `CookieErrorCode`.
+ *
+ * @example
+ * ```typescript
+ * import NitroCookies from 'react-native-nitro-cookies';
+ *
+ * // Synchronous API (no await needed!)
+ * const cookies = NitroCookies.getSync('https://example.com');
+ * NitroCookies.setSync('https://example.com', { name: 'session', value: 'abc123' });
+ *
+ * // Asynchronous API (for WebKit/network operations)
+ * const cookies = await NitroCookies.get('https://example.com', true); // useWebKit
+ * ```
+ */
+export const NitroCookies = {
+  // ========================================
+  // CONFIGURATION
+  // ========================================
+
+  /**
+   * Change library-wide settings. Omitted settings keep their current value.
+   *
+   * `policy` restricts the domains cookies can be written for, and
+   * `limits` the size and number of cookies. Both are enforced before `set`,
+   * `setSync`, `setMany(Sync)`, the import functions and
+   * `setFromResponse(Sync)` reach the native store; rejected cookies fail
+   * with POLICY_VIOLATION or LIMIT_EXCEEDED. `createCookieFetch` and
+   * `attachNitroCookies` ignore rejected response cookies like browsers
+   * ignore blocked cookies. Cookies stored by WebViews or the platform
+   * networking layer are not checked, and count limits only count cookies
+   * written through the library after `limits` were configured.
+   *
+   * `validation` decides what happens to cookie names and values outside
+   * the RFC 6265 grammar (e.g. containing `;`, spaces or line breaks) in
+   * `set`, `setSync`, `setMany(Sync)` and the import functions: they are
+   * passed through unchanged (`off`, the default), rejected with
+   * INVALID_COOKIE (`strict`) or percent-encoded (`lenient`), identically on
+   * iOS and Android. Cookies from `setFromResponse(Sync)` are stored as
+   * parsed, like browsers do.
+   *
+   * @param config - Settings to change
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.configure({
+   *   policy: {
+   *     allowDomains: ['example.com'],
+   *     denyDomains: ['ads.example.com'],
+   *     allowThirdPartyFromResponse: false,
+   *   },
+   *   limits: { ...BROWSER_COOKIE_LIMITS, onExceeded: 'evict' },
+   *   validation: 'strict',
+   * });
+   *
+   * NitroCookies.setSync('https://tracker.com', { name: 'id', value: '1' });
+   * // throws NitroCookieError with code POLICY_VIOLATION
+   * ```
+   */
+  configure(config: CookieConfiguration): void {
+    applyConfiguration(config);
+  },
+
+  // ========================================
+  // SYNCHRONOUS METHODS
+  // ========================================
+
+  /**
+   * Get cookies synchronously for a URL.
+   *
+   * Uses NSHTTPCookieStorage (iOS) or CookieManager (Android).
+   * Does NOT support WebKit cookie store (use async `get` with `useWebKit: true`).
+   *
+   * @param url - The URL to match cookies against (must include protocol)
+   * @returns Dictionary of cookies keyed by name
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   *
+   * @example
+   * ```typescript
+   * // No await needed!
+   * const cookies = NitroCookies.getSync('https://example.com');
+   * console.log(cookies); // { session: { name: 'session', value: 'abc123', ... } }
+   * ```
+   */
+  getSync(url: string): Cookies {
+    return withCookieErrors({ url }, () =>
+      cookiesToDictionary(
+        mergeAttributes(url, NitroCookiesHybridObject.getSync(url))
+      )
+    );
+  },
+
+  /**
+   * Set a cookie synchronously.
+   *
+   * Uses NSHTTPCookieStorage (iOS) or CookieManager (Android).
+   * Does NOT support WebKit cookie store (use async `set` with `useWebKit: true`).
+   *
+   * @param url - The URL for which to set the cookie (must include protocol)
+   * @param cookie - The cookie object to store
+   * @returns true on success
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   * @throws {NitroCookieError} DOMAIN_MISMATCH - Cookie domain doesn't match URL host
+   * @throws {NitroCookieError} INVALID_COOKIE - Name or value outside the RFC 6265 grammar (strict mode), SameSite=None or
+   *   partitioned without secure, or non-integer maxAge
+   * @throws {NitroCookieError} POLICY_VIOLATION - Cookie domain is not allowed by the configured policy
+   * @throws {NitroCookieError} LIMIT_EXCEEDED - Cookie exceeds the configured size or count limits
+   *
+   * @example
+   * ```typescript
+   * // No await needed!
+   * NitroCookies.setSync('https://example.com', {
+   *   name: 'session',
+   *   value: 'abc123',
+   *   path: '/',
+   *   secure: true,
+   * });
+   * ```
+   */
+  setSync(url: string, cookie: Cookie): boolean {
+    return withCookieErrors({ url, cookieName: cookie.name }, () => {
+      const stored = normalizeNameAndValue(cookie);
+      validateCookie(stored);
+      enforcePolicy(url, stored, 'app');
+      const evictions = createLimitCheck('http')(url, stored);
+      const result = NitroCookiesHybridObject.setSync(url, stored);
+      notifyChange({ type: 'set', url, cookie: stored, store: 'http' });
+      evictCookiesSync(evictions);
+      return result;
+    });
+  },
+
+  /**
+   * Parse and set cookies from Set-Cookie header synchronously.
+   *
+   * The header is parsed with `parseSetCookie`. Multiple cookies may be
+   * separated by newlines or folded into one comma-separated value. Nothing is
+   * stored if any cookie in the header is malformed, has a Domain attribute
+   * that doesn't match the URL host, or is rejected by the attribute, policy
+   * or limit checks. The cookies are then stored one at a time, so when the
+   * native store fails partway, the cookies before the failing one stay
+   * stored.
+   *
+   * @param url - The URL associated with the Set-Cookie header
+   * @param value - The raw Set-Cookie header value
+   * @returns true on success
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed
+   * @throws {NitroCookieError} PARSE_ERROR - Set-Cookie header is empty or malformed
+   * @throws {NitroCookieError} DOMAIN_MISMATCH - Domain attribute doesn't match URL host
+   * @throws {NitroCookieError} INVALID_COOKIE - SameSite=None or Partitioned without Secure
+   * @throws {NitroCookieError} POLICY_VIOLATION - Cookie domain is not allowed by the configured policy
+   * @throws {NitroCookieError} LIMIT_EXCEEDED - Cookie exceeds the configured size or count limits
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.setFromResponseSync(
+   *   'https://example.com',
+   *   'session=abc123; path=/; secure; HttpOnly'
+   * );
+   * ```
+   */
+  setFromResponseSync(url: string, value: string): boolean {
+    return withCookieErrors({ url }, () => {
+      const cookies = parseSetCookieHeaders(value, url);
+      const checkLimits = createLimitCheck('http');
+      const evictions: CookieEviction[] = [];
+      for (const cookie of cookies) {
+        validateCookie(cookie);
+        validateCookieDomain(url, cookie);
+        enforcePolicy(url, cookie, 'response');
+        evictions.push(...checkLimits(url, cookie));
+      }
+      for (const cookie of cookies) {
+        withCookieErrors({ url, cookieName: cookie.name }, () =>
+          NitroCookiesHybridObject.setSync(url, cookie)
+        );
+        notifyChange({ type: 'set', url, cookie, store: 'http' });
+      }
+      evictCookiesSync(evictions);
+      return true;
+    });
+  },
+
+  /**
+   * Clear a specific cookie by name synchronously.
+   *
+   * @param url - The URL to match the cookie domain
+   * @param name - The name of the cookie to remove
+   * @returns true if cookie was found and removed, false if not found
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed
+   *
+   * @example
+   * ```typescript
+   * const removed = NitroCookies.clearByNameSync('https://example.com', 'session');
+   * console.log(removed ? 'Cookie removed' : 'Cookie not found');
+   * ```
+   */
+  clearByNameSync(url: string, name: string): boolean {
+    return withCookieErrors({ url, cookieName: name }, () => {
+      const removed = NitroCookiesHybridObject.clearByNameSync(url, name);
+      if (removed) {
+        notifyChange({
+          type: 'removed',
+          url,
+          cookie: { name },
+          store: 'http',
+        });
+      }
+      return removed;
+    });
+  },
+
+  /**
+   * Set several cookies for a URL synchronously with a single native call.
+   *
+   * Each cookie is validated and stored independently: one invalid cookie
+   * does not prevent the others from being stored.
+   *
+   * @param url - The URL for which to set the cookies. Must include protocol.
+   * @param cookies - The cookies to store
+   * @returns One result per cookie, in order
+   *
+   * @example
+   * ```typescript
+   * const results = NitroCookies.setManySync('https://example.com', restored);
+   * for (const { name, error } of results) {
+   *   if (error) console.warn(`Cookie ${name} not restored: ${error.code}`);
+   * }
+   * ```
+   */
+  setManySync(url: string, cookies: Cookie[]): CookieSetResult[] {
+    return withCookieErrors({ url }, () => {
+      const prepared = prepareSetMany(url, cookies, 'http');
+      if (prepared.valid.length === 0) {
+        return prepared.results;
+      }
+      const nativeResults = NitroCookiesHybridObject.setManySync(
+        url,
+        prepared.valid.map(([, cookie]) => cookie)
+      );
+      const results = completeSetMany(url, prepared, nativeResults, 'http');
+      evictCookiesSync(getStoredEvictions(prepared, results));
+      return results;
+    });
+  },
+
+  /**
+   * Get cookies for several URLs synchronously with a single native call.
+   *
+   * An invalid URL fails only its own result.
+   *
+   * @param urls - The URLs to read cookies for
+   * @returns One result per URL, in order
+   *
+   * @example
+   * ```typescript
+   * const [api, auth] = NitroCookies.getManySync([
+   *   'https://api.example.com',
+   *   'https://auth.example.com',
+   * ]);
+   * console.log(api?.cookies.session?.value);
+   * ```
+   */
+  getManySync(urls: string[]): CookieGetResult[] {
+    return withCookieErrors({}, () =>
+      urls.length === 0
+        ? []
+        : toGetResults(urls, NitroCookiesHybridObject.getManySync(urls))
+    );
+  },
+
+  /**
+   * Clear several cookies by name synchronously with a single native call.
+   *
+   * @param url - The URL to match the cookie domain
+   * @param names - The names of the cookies to remove
+   * @returns One result per name, in order
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.clearByNamesSync('https://example.com', ['session', 'refresh']);
+   * ```
+   */
+  clearByNamesSync(url: string, names: string[]): CookieClearResult[] {
+    return withCookieErrors({ url }, () =>
+      names.length === 0
+        ? []
+        : toClearResults(
+            url,
+            names,
+            NitroCookiesHybridObject.clearByNamesSync(url, names),
+            'http'
+          )
+    );
+  },
+
+  // ========================================
+  // ASYNCHRONOUS METHODS
+  // ========================================
+  /**
+   * Set a single cookie for a specific URL.
+   *
+   * @param url - The URL for which to set the cookie. Must include protocol (http:// or https://).
+   * @param cookie - Cookie object containing name, value, and optional attributes.
+   * @param cookie.name - Cookie name (required)
+   * @param cookie.value - Cookie value (required)
+   * @param cookie.path - URL path for cookie. Defaults to "/"
+   * @param cookie.domain - Cookie domain. Defaults to URL host. Supports wildcard (.example.com)
+   * @param cookie.expires - Expiration date in ISO 8601 format (yyyy-MM-dd'T'HH:mm:ss.SSSZZZZZ). Omit for session cookie.
+   * @param cookie.maxAge - Lifetime in seconds. Takes precedence over expires. Zero or negative expires the cookie.
+   * @param cookie.secure - If true, cookie only sent over HTTPS
+   * @param cookie.httpOnly - If true, cookie not accessible via JavaScript (prevents XSS)
+   * @param cookie.sameSite - 'Strict', 'Lax' or 'None' (requires secure). Omit for platform default.
+   * @param cookie.partitioned - If true, store as a partitioned (CHIPS) cookie (requires secure)
+   * @param cookie.extensions - Extra Set-Cookie attributes written out verbatim on Android (e.g. { Priority: 'High' }). Dropped on iOS.
+   * @param cookie.version - Cookie version (rarely used, for RFC 2109 compatibility)
+   * @param useWebKit - (iOS only) If true, use WKHTTPCookieStore instead of NSHTTPCookieStorage. Requires iOS 11+.
+   *
+   * @returns Promise that resolves to true on success
+   *
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   * @throws {NitroCookieError} DOMAIN_MISMATCH - Cookie domain doesn't match URL host
+   * @throws {NitroCookieError} INVALID_COOKIE - Name or value outside the RFC 6265 grammar (strict mode), SameSite=None or
+   *   partitioned without secure, or non-integer maxAge
+   * @throws {NitroCookieError} POLICY_VIOLATION - Cookie domain is not allowed by the configured policy
+   * @throws {NitroCookieError} LIMIT_EXCEEDED - Cookie exceeds the configured size or count limits
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - useWebKit=true on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * await NitroCookies.set('https://api.example.com', {
+   *   name: 'auth_token',
+   *   value: 'xyz789',
+   *   path: '/api',
+   *   domain: '.example.com',
+   *   secure: true,
+   *   httpOnly: true,
+   *   expires: '2030-01-01T00:00:00.000Z',
+   * });
+   * ```
+   */
+  async set(
+    url: string,
+    cookie: Cookie,
+    useWebKit?: boolean
+  ): Promise<boolean> {
+    return withCookieErrorsAsync({ url, cookieName: cookie.name }, async () => {
+      const stored = normalizeNameAndValue(cookie);
+      validateCookie(stored);
+      enforcePolicy(url, stored, 'app');
+      const evictions = createLimitCheck(storeFor(useWebKit))(url, stored);
+      const result = await NitroCookiesHybridObject.set(
+        url,
+        stored,
+        useWebKit ?? false
+      );
+      notifyChange({
+        type: 'set',
+        url,
+        cookie: stored,
+        store: storeFor(useWebKit),
+      });
+      await evictCookies(evictions, useWebKit);
+      return result;
+    });
+  },
+
+  /**
+   * Get all cookies matching a specific URL's domain.
+   *
+   * Returns cookies as a dictionary keyed by cookie name for backwards
+   * compatibility with @react-native-cookies/cookies.
+   *
+   * @param url - The URL to match cookies against. Must include protocol.
+   * @param useWebKit - (iOS only) If true, retrieve from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   *
+   * @returns Promise that resolves to dictionary of cookies keyed by name
+   *
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   *
+   * @example
+   * ```typescript
+   * const cookies = await NitroCookies.get('https://api.example.com');
+   * // Returns: { auth_token: { name: 'auth_token', value: 'xyz789', ... } }
+   * console.log(cookies.auth_token.value); // 'xyz789'
+   * ```
+   */
+  async get(url: string, useWebKit?: boolean): Promise<Cookies> {
+    return withCookieErrorsAsync({ url }, async () => {
+      const cookies = await NitroCookiesHybridObject.get(
+        url,
+        useWebKit ?? false
+      );
+      return cookiesToDictionary(mergeAttributes(url, cookies));
+    });
+  },
+
+  /**
+   * Clear all cookies from storage.
+   *
+   * @param useWebKit - (iOS only) If true, clear from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   *
+   * @returns Promise that resolves to true on success
+   *
+   * @example
+   * ```typescript
+   * await NitroCookies.clearAll();
+   * console.log('All cookies cleared');
+   * ```
+   */
+  async clearAll(useWebKit?: boolean): Promise<boolean> {
+    return withCookieErrorsAsync({}, async () => {
+      const result = await NitroCookiesHybridObject.clearAll(
+        useWebKit ?? false
+      );
+      notifyChange({ type: 'cleared', store: storeFor(useWebKit) });
+      return result;
+    });
+  },
+
+  /**
+   * Parse and store cookies from a raw HTTP Set-Cookie header string.
+   *
+   * Automatically parses cookie attributes (path, domain, expires, maxAge, secure, httpOnly,
+   * sameSite, partitioned)
+   * from the header value using `parseSetCookie`. Multiple cookies may be
+   * separated by newlines or folded into one comma-separated value. Nothing is
+   * stored if any cookie in the header is malformed, has a Domain attribute
+   * that doesn't match the URL host, or is rejected by the attribute, policy
+   * or limit checks. The cookies are then stored one at a time, so when the
+   * native store fails partway, the cookies before the failing one stay
+   * stored.
+   *
+   * @param url - The URL associated with the Set-Cookie header
+   * @param value - The raw Set-Cookie header value (e.g., "session=abc; path=/; secure")
+   * @param useWebKit - (iOS only) If true, store in WKHTTPCookieStore instead of NSHTTPCookieStorage
+   *
+   * @returns Promise that resolves to true on success
+   *
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed
+   * @throws {NitroCookieError} PARSE_ERROR - Set-Cookie header is empty or malformed
+   * @throws {NitroCookieError} DOMAIN_MISMATCH - Domain attribute doesn't match URL host
+   * @throws {NitroCookieError} INVALID_COOKIE - SameSite=None or Partitioned without Secure
+   * @throws {NitroCookieError} POLICY_VIOLATION - Cookie domain is not allowed by the configured policy
+   * @throws {NitroCookieError} LIMIT_EXCEEDED - Cookie exceeds the configured size or count limits
+   *
+   * @example
+   * ```typescript
+   * await NitroCookies.setFromResponse(
+   *   'https://example.com',
+   *   'session=abc123; path=/; expires=Thu, 1 Jan 2030 00:00:00 GMT; secure; HttpOnly'
+   * );
+   * ```
+   */
+  async setFromResponse(
+    url: string,
+    value: string,
+    useWebKit?: boolean
+  ): Promise<boolean> {
+    return withCookieErrorsAsync({ url }, async () => {
+      const cookies = parseSetCookieHeaders(value, url);
+      const checkLimits = createLimitCheck(storeFor(useWebKit));
+      const evictions: CookieEviction[] = [];
+      for (const cookie of cookies) {
+        validateCookie(cookie);
+        validateCookieDomain(url, cookie);
+        enforcePolicy(url, cookie, 'response');
+        evictions.push(...checkLimits(url, cookie));
+      }
+      for (const cookie of cookies) {
+        await withCookieErrorsAsync({ url, cookieName: cookie.name }, () =>
+          NitroCookiesHybridObject.set(url, cookie, useWebKit ?? false)
+        );
+        notifyChange({
+          type: 'set',
+          url,
+          cookie,
+          store: storeFor(useWebKit),
+        });
+      }
+      await evictCookies(evictions, useWebKit);
+      return true;
+    });
+  },
+
+  /**
+   * Make an HTTP GET request to a URL and extract cookies from response headers.
+   *
+   * Automatically retrieves and parses all Set-Cookie headers from the HTTP response
+   * with `parseSetCookie`. Headers that cannot produce a cookie are ignored, as
+   * RFC 6265 requires for user agents, and so are cookies whose domain
+   * `setFromResponse` would reject: a Domain attribute that doesn't match the
+   * URL host, or a domain the configured policy doesn't allow. The response's
+   * cookies are not stored. Returns cookies as a dictionary keyed by name.
+   *
+   * @param url - The URL to request. Must include protocol.
+   *
+   * @returns Promise that resolves to dictionary of cookies from response
+   *
+   * @throws {NitroCookieError} NETWORK_ERROR - HTTP request failed
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed
+   *
+   * @example
+   * ```typescript
+   * const cookies = await NitroCookies.getFromResponse('https://api.example.com/login');
+   * // Returns cookies set by server in Set-Cookie headers
+   * ```
+   */
+  async getFromResponse(url: string): Promise<Cookies> {
+    return withCookieErrorsAsync({ url }, async () => {
+      const headers = await NitroCookiesHybridObject.getFromResponse(url);
+      const cookies: Cookie[] = [];
+      for (const header of headers.flatMap(splitSetCookieHeader)) {
+        try {
+          const cookie = parseResponseCookie(header, url);
+          validateCookieDomain(url, cookie);
+          enforcePolicy(url, cookie, 'response');
+          trackOrigin(url, cookie);
+          cookies.push(cookie);
+        } catch {
+          // Malformed Set-Cookie headers from the server are ignored (RFC 6265 §5.2),
+          // like cookies that setFromResponse would reject for their domain
+        }
+      }
+      return cookiesToDictionary(cookies);
+    });
+  },
+
+  /**
+   * Get ALL cookies from storage regardless of domain.
+   *
+   * Returns all cookies from all domains. Useful for debugging and auditing.
+   * Returns cookies as a dictionary keyed by name.
+   *
+   * Android's CookieManager cannot enumerate cookies: there, `getAll` reads
+   * the origins recorded after `trackOrigins()` and returns cookies without
+   * attributes.
+   *
+   * @param useWebKit - If true, retrieve from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   *
+   * @returns Promise that resolves to dictionary of all cookies
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - Called on Android without origin tracking
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.trackOrigins(); // once at startup, for Android
+   *
+   * const allCookies = await NitroCookies.getAll();
+   * // Returns cookies from ALL domains
+   * console.log(Object.keys(allCookies).length, 'total cookies');
+   * ```
+   */
+  async getAll(useWebKit?: boolean): Promise<Cookies> {
+    return withCookieErrorsAsync({}, async () => {
+      const cookies = await readAllCookies(useWebKit ?? false);
+      return cookiesToDictionary(cookies);
+    });
+  },
+
+  /**
+   * Find cookies matching a query.
+   *
+   * Searches every cookie returned by `getAll`. On Android, the tracked
+   * origins (see `trackOrigins`) and `https://<domain><path>` are read
+   * instead, so without origin tracking the query must include `domain` and
+   * subdomain cookies are not found. Android returns cookies without
+   * attributes.
+   *
+   * @param query - Filters that every returned cookie matches
+   *
+   * @returns Promise that resolves to the matching cookies
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - Query without `domain` on Android without origin tracking
+   * @throws {NitroCookieError} INVALID_URL - `domain` or `path` can't form a URL (Android)
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * // Auth cookies that expire within the next hour
+   * const expiring = await NitroCookies.find({
+   *   domain: 'example.com',
+   *   name: /^auth_/,
+   *   expiresBefore: new Date(Date.now() + 60 * 60 * 1000),
+   * });
+   * ```
+   */
+  async find(query: CookieQuery = {}): Promise<Cookie[]> {
+    return withCookieErrorsAsync({}, async () => {
+      const url = getQueryUrl(query);
+      const cookies = await readAllCookies(
+        query.store === 'webkit',
+        url === undefined ? [] : [url]
+      );
+      const now = Date.now();
+      return cookies.filter((cookie) => matchesQuery(cookie, query, now));
+    });
+  },
+
+  /**
+   * Clear a specific cookie by name and domain.
+   *
+   * **iOS preferred** - On iOS, removes the cookie immediately. On Android,
+   * sets an expired cookie (may not remove immediately due to platform limitations).
+   *
+   * @param url - The URL to match the cookie domain
+   * @param name - The name of the cookie to remove
+   * @param useWebKit - (iOS only) If true, remove from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   *
+   * @returns Promise that resolves to true if cookie was found and removed, false otherwise
+   *
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed
+   *
+   * @example
+   * ```typescript
+   * const removed = await NitroCookies.clearByName('https://example.com', 'session_token');
+   * if (removed) {
+   *   console.log('Cookie removed');
+   * }
+   * ```
+   */
+  async clearByName(
+    url: string,
+    name: string,
+    useWebKit?: boolean
+  ): Promise<boolean> {
+    return withCookieErrorsAsync({ url, cookieName: name }, async () => {
+      const removed = await NitroCookiesHybridObject.clearByName(
+        url,
+        name,
+        useWebKit ?? false
+      );
+      if (removed) {
+        notifyChange({
+          type: 'removed',
+          url,
+          cookie: { name },
+          store: storeFor(useWebKit),
+        });
+      }
+      return removed;
+    });
+  },
+
+  /**
+   * Set several cookies for a URL with a single native call.
+   *
+   * Each cookie is validated and stored independently: one invalid cookie
+   * does not prevent the others from being stored.
+   *
+   * @param url - The URL for which to set the cookies. Must include protocol.
+   * @param cookies - The cookies to store
+   * @param useWebKit - (iOS only) If true, use WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per cookie, in order
+   *
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - useWebKit=true on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const results = await NitroCookies.setMany('https://example.com', restored, true);
+   * ```
+   */
+  async setMany(
+    url: string,
+    cookies: Cookie[],
+    useWebKit?: boolean
+  ): Promise<CookieSetResult[]> {
+    return withCookieErrorsAsync({ url }, async () => {
+      const store = storeFor(useWebKit);
+      const prepared = prepareSetMany(url, cookies, store);
+      if (prepared.valid.length === 0) {
+        return prepared.results;
+      }
+      const nativeResults = await NitroCookiesHybridObject.setMany(
+        url,
+        prepared.valid.map(([, cookie]) => cookie),
+        useWebKit ?? false
+      );
+      const results = completeSetMany(url, prepared, nativeResults, store);
+      await evictCookies(getStoredEvictions(prepared, results), useWebKit);
+      return results;
+    });
+  },
+
+  /**
+   * Get cookies for several URLs with a single native call.
+   *
+   * An invalid URL fails only its own result. With `useWebKit`, the WebKit
+   * store is read once for all URLs.
+   *
+   * @param urls - The URLs to read cookies for
+   * @param useWebKit - (iOS only) If true, retrieve from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per URL, in order
+   *
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - useWebKit=true on iOS < 11
+   */
+  async getMany(
+    urls: string[],
+    useWebKit?: boolean
+  ): Promise<CookieGetResult[]> {
+    return withCookieErrorsAsync({}, async () =>
+      urls.length === 0
+        ? []
+        : toGetResults(
+            urls,
+            await NitroCookiesHybridObject.getMany(urls, useWebKit ?? false)
+          )
+    );
+  },
+
+  /**
+   * Clear several cookies by name with a single native call.
+   *
+   * @param url - The URL to match the cookie domain
+   * @param names - The names of the cookies to remove
+   * @param useWebKit - (iOS only) If true, remove from WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @returns Promise that resolves to one result per name, in order
+   *
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - useWebKit=true on iOS < 11
+   */
+  async clearByNames(
+    url: string,
+    names: string[],
+    useWebKit?: boolean
+  ): Promise<CookieClearResult[]> {
+    return withCookieErrorsAsync({ url }, async () =>
+      names.length === 0
+        ? []
+        : toClearResults(
+            url,
+            names,
+            await NitroCookiesHybridObject.clearByNames(
+              url,
+              names,
+              useWebKit ?? false
+            ),
+            storeFor(useWebKit)
+          )
+    );
+  },
+
+  /**
+   * Flush in-memory cookies to persistent storage.
+   *
+   * **Android only** - Forces cookies to be written to disk immediately.
+   * Required on Android to ensure cookies persist across app restarts.
+   * Automatically called on API 21+ but explicit call ensures immediate persistence.
+   *
+   * @returns Promise that resolves when flush is complete
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - Called on iOS (not needed)
+   *
+   * @example
+   * ```typescript
+   * import { Platform } from 'react-native';
+   *
+   * if (Platform.OS === 'android') {
+   *   await NitroCookies.flush();
+   *   console.log('Cookies persisted to disk');
+   * }
+   * ```
+   */
+  async flush(): Promise<void> {
+    return withCookieErrorsAsync({}, () => NitroCookiesHybridObject.flush());
+  },
+
+  /**
+   * Remove all session cookies (cookies without an expiration date).
+   *
+   * **Android only** - Session cookies are automatically removed when the app
+   * closes on iOS. On Android, this method explicitly removes them.
+   *
+   * @returns Promise that resolves to true if any session cookies were removed
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - Called on iOS (not needed)
+   *
+   * @example
+   * ```typescript
+   * import { Platform } from 'react-native';
+   *
+   * if (Platform.OS === 'android') {
+   *   const removed = await NitroCookies.removeSessionCookies();
+   *   if (removed) {
+   *     console.log('Session cookies removed');
+   *   }
+   * }
+   * ```
+   */
+  async removeSessionCookies(): Promise<boolean> {
+    return withCookieErrorsAsync({}, async () => {
+      const removed = await NitroCookiesHybridObject.removeSessionCookies();
+      if (removed) {
+        notifyChange({ type: 'cleared', store: 'http' });
+      }
+      return removed;
+    });
+  },
+
+  // ========================================
+  // IMPORT AND EXPORT
+  // ========================================
+
+  /**
+   * Export cookies as a versioned JSON snapshot.
+   *
+   * Reads every cookie of the store like `getAll`; on Android, enable origin
+   * tracking or pass `domains` to choose what can be read. Cookies are
+   * exported with absolute `expires` dates, so a snapshot can be imported
+   * later or on another device.
+   *
+   * @param options - Domains to export (with subdomains) and the store to read
+   *
+   * @returns Promise that resolves to a JSON-serializable snapshot
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No `domains` on Android without origin tracking
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await NitroCookies.exportSnapshot({ domains: ['example.com'] });
+   * await AsyncStorage.setItem('cookies', JSON.stringify(snapshot));
+   * ```
+   */
+  async exportSnapshot(
+    options: CookieExportOptions = {}
+  ): Promise<CookieSnapshot> {
+    return withCookieErrorsAsync({}, async () =>
+      createSnapshot(
+        await readExportedCookies(options),
+        options.store ?? 'http'
+      )
+    );
+  },
+
+  /**
+   * Import cookies from a snapshot created by `exportSnapshot`.
+   *
+   * Each cookie is written to `https://<domain><path>` and succeeds or fails
+   * on its own; failures are reported with their position in the snapshot.
+   *
+   * @param snapshot - The snapshot object or its JSON text
+   * @param options - Merge or replace, expired cookie handling and target store
+   *
+   * @returns Promise that resolves to the number of imported and skipped
+   *   cookies and the per-cookie failures
+   *
+   * @throws {NitroCookieError} PARSE_ERROR - Not JSON, unsupported version or malformed document
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const json = await AsyncStorage.getItem('cookies');
+   * if (json) {
+   *   const { imported, failures } = await NitroCookies.importSnapshot(json, {
+   *     mode: 'replace',
+   *   });
+   * }
+   * ```
+   */
+  async importSnapshot(
+    snapshot: CookieSnapshot | string,
+    options: CookieImportOptions = {}
+  ): Promise<CookieImportResult> {
+    return withCookieErrorsAsync({}, async () => {
+      const document = parseSnapshot(snapshot);
+      const entries = (document.cookies as unknown[]).map((entry, index) => {
+        try {
+          return { index, cookie: parseSnapshotCookie(entry) };
+        } catch (error) {
+          const cookieError = toCookieError(error);
+          return { index, name: cookieError.cookieName, error: cookieError };
+        }
+      });
+      return importCookies(entries, {
+        ...options,
+        store: options.store ?? document.store,
+      });
+    });
+  },
+
+  /**
+   * Export cookies in the Netscape cookies.txt format used by curl and wget.
+   *
+   * Selects cookies like `exportSnapshot`. Host-only cookies are written
+   * without subdomains (`FALSE`) and every other cookie with them (`TRUE`).
+   * Android reads don't report host-only cookies, so they are all `TRUE`.
+   *
+   * @param options - Domains to export (with subdomains) and the store to read
+   *
+   * @returns Promise that resolves to the file contents
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No `domains` on Android without origin tracking
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const text = await NitroCookies.exportNetscape({ domains: ['example.com'] });
+   * // Save as cookies.txt, then: curl -b cookies.txt https://example.com/me
+   * ```
+   */
+  async exportNetscape(options: CookieExportOptions = {}): Promise<string> {
+    return withCookieErrorsAsync({}, async () => {
+      const cookies = await readExportedCookies(options);
+      return [NETSCAPE_HEADER, '', ...cookies.map(toNetscapeLine), ''].join(
+        '\n'
+      );
+    });
+  },
+
+  /**
+   * Import cookies from a Netscape cookies.txt file, such as one written by
+   * `curl -c`.
+   *
+   * Each line succeeds or fails on its own; failures are reported with their
+   * 1-based line number. Blank lines and comments are ignored.
+   *
+   * @param text - The file contents
+   * @param options - Merge or replace, expired cookie handling and target store
+   *
+   * @returns Promise that resolves to the number of imported and skipped
+   *   cookies and the per-line failures
+   *
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * // curl -c cookies.txt -d @login.json https://staging.example.com/login
+   * const { imported, failures } = await NitroCookies.importNetscape(text);
+   * ```
+   */
+  async importNetscape(
+    text: string,
+    options: CookieImportOptions = {}
+  ): Promise<CookieImportResult> {
+    return withCookieErrorsAsync({}, async () => {
+      const entries: CookieImportEntry[] = [];
+      text.split('\n').forEach((line, i) => {
+        try {
+          const cookie = parseNetscapeLine(line);
+          if (cookie) {
+            entries.push({ index: i + 1, cookie });
+          }
+        } catch (error) {
+          const cookieError = toCookieError(error);
+          entries.push({
+            index: i + 1,
+            name: cookieError.cookieName,
+            error: cookieError,
+          });
+        }
+      });
+      return importCookies(entries, options);
+    });
+  },
+
+  /**
+   * Export cookies as HAR 1.2 cookie objects.
+   *
+   * Selects cookies like `exportSnapshot`. The result can be placed in the
+   * `cookies` array of a HAR request or response.
+   *
+   * @param options - Domains to export (with subdomains) and the store to read
+   *
+   * @returns Promise that resolves to the HAR cookie objects
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No `domains` on Android without origin tracking
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const cookies = await NitroCookies.exportHarCookies({ domains: ['example.com'] });
+   * // [{ name: 'session', value: 'abc', path: '/', domain: 'example.com',
+   * //    httpOnly: true, secure: true, expires: '2030-01-01T00:00:00.000Z' }]
+   * ```
+   */
+  async exportHarCookies(
+    options: CookieExportOptions = {}
+  ): Promise<HarCookie[]> {
+    return withCookieErrorsAsync({}, async () =>
+      (await readExportedCookies(options)).map(toHarCookie)
+    );
+  },
+
+  /**
+   * Import the cookies recorded in a HAR 1.2 file.
+   *
+   * Reads `log.entries[].request.cookies` and `log.entries[].response.cookies`
+   * in entry order, so later entries override earlier ones. Cookies without
+   * a domain belong to the host of the entry's request URL. Each cookie
+   * succeeds or fails on its own; failures carry the index of their entry.
+   *
+   * @param har - The parsed HAR document or its JSON text
+   * @param options - Cookie source, merge or replace, expired cookie handling
+   *   and target store
+   *
+   * @returns Promise that resolves to the number of imported and skipped
+   *   cookies and the per-cookie failures
+   *
+   * @throws {NitroCookieError} PARSE_ERROR - Not JSON or no `log.entries` array
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const har = await fetch(harUrl).then((response) => response.text());
+   * const { imported, failures } = await NitroCookies.importHar(har, {
+   *   source: 'response',
+   * });
+   * ```
+   */
+  async importHar(
+    har: HarLog | string,
+    options: HarImportOptions = {}
+  ): Promise<CookieImportResult> {
+    return withCookieErrorsAsync({}, async () =>
+      importCookies(readHarCookies(har, options.source), options)
+    );
+  },
+
+  // ========================================
+  // STORE SYNCHRONIZATION
+  // ========================================
+
+  /**
+   * Copy cookies between the HTTP store and the WebKit store.
+   *
+   * On iOS, cookies received by native requests are stored in
+   * NSHTTPCookieStorage and are not always visible to WKWebView (and the
+   * other way round). Cookies are matched by name, domain and path; a cookie
+   * is copied when it is missing from the target store or has a different
+   * value there. Cookies are read like `getAll`, so on Android pass `domains`
+   * or enable origin tracking. Android has a single store, so nothing is
+   * copied there.
+   *
+   * @param options - Source and target stores, direction and the cookies to copy
+   *
+   * @returns Promise that resolves to the number of copied cookies and the
+   *   cookies that could not be written
+   *
+   * @throws {NitroCookieError} INVALID_ARGUMENT - `from` and `to` are the same store
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No `domains` on Android without origin tracking
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - iOS < 11
+   *
+   * @example
+   * ```typescript
+   * // After native login, before opening the WebView
+   * await NitroCookies.syncStores({
+   *   from: 'http',
+   *   to: 'webkit',
+   *   domains: ['example.com'],
+   *   names: ['session'],
+   * });
+   * ```
+   */
+  async syncStores(options: CookieSyncOptions): Promise<CookieSyncResult> {
+    return withCookieErrorsAsync({}, async () => {
+      const { from } = options;
+      const to = options.to ?? (from === 'http' ? 'webkit' : 'http');
+      if (to === from) {
+        throw new NitroCookieError(
+          CookieErrorCode.INVALID_ARGUMENT,
+          `Cannot sync the '${from}' store with itself`
+        );
+      }
+
+      const diff = diffCookies(
+        await readStoreCookies(from, options),
+        await readStoreCookies(to, options)
+      );
+      const writes: Array<[CookieStore, Cookie[]]> = [
+        [to, [...diff.onlyInSource, ...diff.changed.map(([cookie]) => cookie)]],
+      ];
+      if (options.direction === 'merge') {
+        writes.push([from, diff.onlyInTarget]);
+      }
+
+      const result: CookieSyncResult = { copied: 0, failures: [] };
+      for (const [store, cookies] of writes) {
+        const { imported, failures } = await importCookies(
+          cookies.map((cookie, index) => ({ index, cookie })),
+          { store }
+        );
+        result.copied += imported;
+        for (const { index, error } of failures) {
+          result.failures.push({ cookie: cookies[index]!, store, error });
+        }
+      }
+      return result;
+    });
+  },
+
+  /**
+   * Compare the HTTP store with the WebKit store.
+   *
+   * Reports cookies that exist in only one store and cookies whose value
+   * differs between them, matched by name, domain and path.
+   *
+   * @param selection - Only compare cookies for these domains and/or names
+   *
+   * @returns Promise that resolves to the differences between the stores
+   *
+   * @throws {NitroCookieError} PLATFORM_UNSUPPORTED - No `domains` on Android without origin tracking
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - iOS < 11
+   *
+   * @example
+   * ```typescript
+   * const report = await NitroCookies.verifyStores({ domains: ['example.com'] });
+   * if (!report.inSync) {
+   *   console.warn('WebView is missing', report.missingFromWebKit);
+   * }
+   * ```
+   */
+  async verifyStores(
+    selection: CookieStoreSelection = {}
+  ): Promise<CookieStoreReport> {
+    return withCookieErrorsAsync({}, async () =>
+      compareStores(
+        await readStoreCookies('http', selection),
+        await readStoreCookies('webkit', selection)
+      )
+    );
+  },
+
+  // ========================================
+  // PERSISTENCE
+  // ========================================
+
+  /**
+   * Persist the cookies of chosen domains through your own storage.
+   *
+   * Restores the saved snapshot (merging it into the store), then saves a
+   * new snapshot of `domains` after every mutation made through the library.
+   * This keeps sessions across app restarts without relying on when Android
+   * flushes CookieManager to disk or on NSHTTPCookieStorage persistence.
+   * Cookies changed by WebViews or the server outside the library are saved
+   * with the next mutation or `save()` call.
+   *
+   * On Android, call `trackAttributes()` first so that saved cookies keep
+   * their expiry and flags.
+   *
+   * @param options - Storage adapter, domains to persist and store
+   *
+   * @returns Promise that resolves to a handle with the restore result,
+   *   `save()` and `stop()`
+   *
+   * @throws {NitroCookieError} PARSE_ERROR - The saved snapshot is malformed
+   * @throws {NitroCookieError} WEBKIT_UNAVAILABLE - store 'webkit' on iOS < 11
+   *
+   * @example
+   * ```typescript
+   * import AsyncStorage from '@react-native-async-storage/async-storage';
+   *
+   * const persistence = await NitroCookies.enablePersistence({
+   *   adapter: new KeyValuePersistenceAdapter(AsyncStorage),
+   *   domains: ['example.com'],
+   * });
+   * ```
+   */
+  async enablePersistence(
+    options: CookiePersistenceOptions
+  ): Promise<CookiePersistence> {
+    return withCookieErrorsAsync({}, () =>
+      startPersistence(NitroCookies, options)
+    );
+  },
+
+  // ========================================
+  // TRACKING
+  // ========================================
+
+  /**
+   * Record the URLs that cookies are written for, so that `getAll` and
+   * `find` work on Android.
+   *
+   * While enabled, every cookie stored through the library (and every cookie
+   * returned by `getFromResponse`) records the URL it can be read back from.
+   * The registry is kept in memory; register origins from previous app
+   * sessions with `registerOrigin`. iOS enumerates cookies natively and
+   * doesn't read the registry.
+   *
+   * @param enabled - Pass false to stop recording and reading tracked origins
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.trackOrigins();
+   * NitroCookies.registerOrigin('https://example.com');
+   *
+   * // Logout on both platforms
+   * for (const cookie of Object.values(await NitroCookies.getAll())) {
+   *   await NitroCookies.clearByName(`https://${cookie.domain}`, cookie.name);
+   * }
+   * ```
+   */
+  trackOrigins(enabled: boolean = true): void {
+    setOriginTracking(enabled);
+  },
+
+  /**
+   * Register a URL whose cookies `getAll` and `find` read on Android.
+   *
+   * @param url - The URL to register. Its path limits the cookies returned.
+   * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+   */
+  registerOrigin(url: string): void {
+    withCookieErrors({ url }, () => registerOrigin(url));
+  },
+
+  /**
+   * Get the URLs recorded by origin tracking and `registerOrigin`.
+   *
+   * Persist this list to restore the registry in the next app session.
+   */
+  getTrackedOrigins(): string[] {
+    return getTrackedOrigins();
+  },
+
+  /**
+   * Forget every tracked URL.
+   */
+  clearTrackedOrigins(): void {
+    clearTrackedOrigins();
+  },
+
+  /**
+   * Keep the attributes of cookies written through the library and restore
+   * them into read results on Android.
+   *
+   * Android's CookieManager returns cookies without `path`, `domain`,
+   * `expires`, `secure`, `httpOnly` and `sameSite`. While enabled, reads
+   * (`get`, `getSync`, `getMany`, `getAll`, `find`) return the attributes
+   * the cookie was stored with, as long as the stored value is unchanged.
+   * A cookie whose value was changed outside the library (by a WebView or
+   * the server) is returned without attributes and its record is dropped.
+   * The records are kept in memory only. iOS reads already carry every
+   * attribute and are returned unchanged.
+   *
+   * @param enabled - Pass false to stop tracking and forget recorded attributes
+   *
+   * @example
+   * ```typescript
+   * NitroCookies.trackAttributes();
+   * NitroCookies.setSync('https://example.com', {
+   *   name: 'session',
+   *   value: 'abc',
+   *   secure: true,
+   *   maxAge: 3600,
+   * });
+   * NitroCookies.getSync('https://example.com').session?.expires; // set on Android too
+   * ```
+   */
+  trackAttributes(enabled: boolean = true): void {
+    setAttributeTracking(enabled);
+  },
+
+  // ========================================
+  // EVENTS
+  // ========================================
+
+  /**
+   * Listen for cookie changes made through this library.
+   *
+   * The listener is called after `set`, `setSync`, `setFromResponse(Sync)`,
+   * `clearByName(Sync)`, `clearAll` and `removeSessionCookies` succeed.
+   * `setFromResponse` emits one `set` event per cookie, and `clearByName` only
+   * emits when a cookie was removed. Changes made by WebViews or the platform
+   * networking layer are not reported.
+   *
+   * @param eventName - Only 'change' is supported
+   * @param listener - Called with a CookieChangeEvent
+   * @param filter - Only deliver events for this domain (and subdomains) and/or name.
+   *   `cleared` events are always delivered.
+   * @returns A function that removes the listener
+   * @throws {NitroCookieError} INVALID_ARGUMENT - eventName is not 'change'
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = NitroCookies.addListener(
+   *   'change',
+   *   (event) => {
+   *     if (event.type !== 'set') {
+   *       authStore.refresh();
+   *     }
+   *   },
+   *   { domain: 'example.com', name: 'session' }
+   * );
+   *
+   * // Later
+   * unsubscribe();
+   * ```
+   */
+  addListener(
+    eventName: 'change',
+    listener: CookieChangeListener,
+    filter?: CookieChangeFilter
+  ): () => void {
+    return withCookieErrors({}, () => {
+      if (eventName !== 'change') {
+        throw new NitroCookieError(
+          CookieErrorCode.INVALID_ARGUMENT,
+          `Unsupported event '${String(eventName)}'`
+        );
+      }
+      return subscribeToChanges(listener, filter);
+    });
+  },
+};
@@ -0,0 +1,119 @@
+import { CookieJar } from '../CookieJar';
+import { CookieErrorCode } from '../types';
+
+describe('CookieJar', () => {
+  let now: number;
+  let jar: CookieJar;
+
+  beforeEach(() => {
+    now = Date.UTC(2030, 0, 1);
+    jar = new CookieJar({ now: () => now });
+  });
+
+  it('sends host-only cookies to the exact host only', () => {
+    jar.setCookie('https://example.com', 'a=1');
+    expect(jar.getCookieHeader('https://example.com')).toBe('a=1');
+    expect(jar.getCookieHeader('https://www.example.com')).toBe('');
+  });
+
+  it('sends domain cookies to subdomains', () => {
+    jar.setCookie('https://www.example.com', 'a=1; Domain=.Example.com');
+    jar.setCookie('https://www.example.com', { name: 'b', value: '2' });
+    expect(jar.getCookieHeader('https://api.example.com')).toBe('a=1');
+    expect(jar.getCookieHeader('https://www.example.com')).toBe('a=1; b=2');
+    expect(jar.getCookieHeader('https://notexample.com')).toBe('');
+  });
+
+  it('rejects domains that do not match the request host', () => {
+    expect(() =>
+      jar.setCookie('https://example.com', 'a=1; Domain=other.com')
+    ).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.DOMAIN_MISMATCH })
+    );
+    expect(() =>
+      jar.setCookie('http://10.0.0.1', {
+        name: 'a',
+        value: '1',
+        domain: '0.0.1',
+      })
+    ).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.DOMAIN_MISMATCH })
+    );
+  });
+
+  it('applies path matching and the default path', () => {
+    jar.setCookie('https://example.com/docs/page', 'a=1');
+    jar.setCookie('https://example.com', 'b=2; Path=/docsx');
+    expect(jar.getCookieHeader('https://example.com/docs')).toBe('a=1');
+    expect(jar.getCookieHeader('https://example.com/docs/other')).toBe('a=1');
+    expect(jar.getCookieHeader('https://example.com/')).toBe('');
+  });
+
+  it('only sends secure cookies over https', () => {
+    jar.setCookie('https://example.com', 'a=1; Secure');
+    expect(jar.getCookieHeader('http://example.com')).toBe('');
+    expect(jar.getCookieHeader('https://example.com')).toBe('a=1');
+  });
+
+  it('orders cookies by path length, then creation time', () => {
+    jar.setCookie('https://example.com', 'a=1; Path=/');
+    now += 1000;
+    jar.setCookie('https://example.com', 'b=2; Path=/account');
+    jar.setCookie('https://example.com', 'c=3; Path=/');
+    now += 1000;
+    // Replacing keeps the original creation time
+    jar.setCookie('https://example.com', 'a=4; Path=/');
+    expect(jar.getCookieHeader('https://example.com/account')).toBe(
+      'b=2; a=4; c=3'
+    );
+  });
+
+  it('resolves Max-Age and evicts expired cookies', () => {
+    const stored = jar.setCookie('https://example.com', 'a=1; Max-Age=60');
+    expect(stored).toEqual({
+      name: 'a',
+      value: '1',
+      path: '/',
+      domain: 'example.com',
+      expires: '2030-01-01T00:01:00.000Z',
+    });
+    expect(jar.size).toBe(1);
+    now += 60_000;
+    expect(jar.getCookiesForUrl('https://example.com')).toEqual([]);
+    expect(jar.size).toBe(0);
+  });
+
+  it('deletes a stored cookie when an expired cookie replaces it', () => {
+    jar.setCookie('https://example.com', 'a=1');
+    expect(
+      jar.setCookie(
+        'https://example.com',
+        'a=; Expires=Thu, 01 Jan 1970 00:00:00 GMT'
+      )
+    ).toBeUndefined();
+    expect(jar.getAllCookies()).toEqual([]);
+  });
+
+  it('removes cookies by name and session cookies', () => {
+    jar.setCookie('https://example.com', 'a=1; Path=/account');
+    jar.setCookie('https://example.com', 'b=2; Max-Age=60');
+    jar.setCookie('https://example.com', 'c=3');
+    expect(jar.removeCookie('https://example.com', 'a')).toBe(true);
+    expect(jar.removeCookie('https://example.com', 'a')).toBe(false);
+    expect(jar.removeSessionCookies()).toBe(true);
+    expect(jar.getAllCookies().map((cookie) => cookie.name)).toEqual(['b']);
+    jar.clear();
+    expect(jar.size).toBe(0);
+  });
+
+  it('validates cookies before storing them', () => {
+    expect(() =>
+      jar.setCookie('https://example.com', 'a=1; SameSite=None')
+    ).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.INVALID_COOKIE })
+    );
+    expect(() => jar.setCookie('https://example.com', 'nameless')).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.PARSE_ERROR })
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import NitroCookies, { attachNitroCookies } from '../index';
+import type { AxiosRequestConfigLike, AxiosResponseLike } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+type Handler<V> = ((value: V) => V | Promise<V>) | null | undefined;
+type ErrorHandler = ((error: unknown) => unknown) | null | undefined;
+
+function createInterceptorManager<V>() {
+  const handlers = new Map<number, [Handler<V>, ErrorHandler]>();
+  let nextId = 0;
+  return {
+    handlers,
+    use(onFulfilled?: Handler<V>, onRejected?: ErrorHandler) {
+      handlers.set(nextId, [onFulfilled, onRejected]);
+      return nextId++;
+    },
+    eject(id: number) {
+      handlers.delete(id);
+    },
+  };
+}
+
+function createAxiosStub() {
+  const instance = {
+    interceptors: {
+      request: createInterceptorManager<AxiosRequestConfigLike>(),
+      response: createInterceptorManager<AxiosResponseLike>(),
+    },
+  };
+  return {
+    instance,
+    request(config: AxiosRequestConfigLike): AxiosRequestConfigLike {
+      let result = config;
+      for (const [
+        onFulfilled,
+      ] of instance.interceptors.request.handlers.values()) {
+        result = onFulfilled!(result) as AxiosRequestConfigLike;
+      }
+      return result;
+    },
+    respond(response: AxiosResponseLike) {
+      for (const [
+        onFulfilled,
+      ] of instance.interceptors.response.handlers.values()) {
+        onFulfilled!(response);
+      }
+    },
+    fail(response: AxiosResponseLike) {
+      const [, onRejected] = [
+        ...instance.interceptors.response.handlers.values(),
+      ][0]!;
+      return onRejected!({ response });
+    },
+  };
+}
+
+describe('attachNitroCookies', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('resolves baseURL and relative URLs', () => {
+    NitroCookies.setSync('https://api.example.com', {
+      name: 'a',
+      value: '1',
+      path: '/v1',
+    });
+    const axios = createAxiosStub();
+    attachNitroCookies(axios.instance);
+
+    const config = axios.request({
+      baseURL: 'https://api.example.com/v1/',
+      url: '/users',
+      headers: { cookie: 'manual=1' },
+    });
+    expect(config.headers).toEqual({ cookie: 'manual=1; a=1' });
+    expect(config.withCredentials).toBe(false);
+
+    expect(
+      axios.request({ baseURL: 'https://api.example.com', url: 'users' })
+        .headers
+    ).toBeUndefined();
+    expect(
+      axios.request({
+        baseURL: 'https://other.com',
+        url: 'https://api.example.com/v1',
+      }).headers
+    ).toEqual({ Cookie: 'a=1' });
+    expect(axios.request({ url: '/v1/users' }).headers).toBeUndefined();
+  });
+
+  it('stores string and array valued set-cookie headers', () => {
+    const axios = createAxiosStub();
+    attachNitroCookies(axios.instance);
+
+    axios.respond({
+      config: { baseURL: 'https://example.com', url: '/login' },
+      headers: { 'set-cookie': ['a=1; Path=/', 'nameless', 'b=2'] },
+    });
+    axios.respond({
+      config: { url: 'https://example.com' },
+      headers: {
+        'Set-Cookie': 'c=3; Expires=Wed, 21 Oct 2099 07:28:00 GMT, d=4',
+      },
+    });
+
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+
+  it('stores cookies from redirected and error responses', async () => {
+    const axios = createAxiosStub();
+    attachNitroCookies(axios.instance);
+
+    axios.respond({
+      config: { url: 'https://example.com' },
+      headers: { 'set-cookie': ['a=1'] },
+      request: { responseURL: 'https://other.com/' },
+    });
+    const error = axios.fail({
+      config: { url: 'https://example.com' },
+      headers: { 'set-cookie': ['b=2'] },
+    });
+
+    await expect(error).rejects.toEqual({ response: expect.anything() });
+    expect(Object.keys(NitroCookies.getSync('https://other.com'))).toEqual([
+      'a',
+    ]);
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'b',
+    ]);
+  });
+
+  it('only handles allowed hosts and can be detached', () => {
+    NitroCookies.setSync('https://other.com', { name: 'a', value: '1' });
+    const axios = createAxiosStub();
+    const detach = attachNitroCookies(axios.instance, {
+      allowedHosts: ['example.com'],
+    });
+
+    expect(axios.request({ url: 'https://other.com' }).headers).toBeUndefined();
+
+    detach();
+    expect(axios.instance.interceptors.request.handlers.size).toBe(0);
+    expect(axios.instance.interceptors.response.handlers.size).toBe(0);
+  });
+});
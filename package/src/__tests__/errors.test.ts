@@ -0,0 +1,97 @@
+import {
+  NitroCookieError,
+  isCookieError,
+  toCookieError,
+  withCookieErrors,
+  withCookieErrorsAsync,
+} from '../errors';
+import { CookieErrorCode } from '../types';
+
+describe('NitroCookieError', () => {
+  it('exposes code, url and cookieName', () => {
+    const error = new NitroCookieError(
+      CookieErrorCode.DOMAIN_MISMATCH,
+      'mismatch',
+      { url: 'https://example.com', cookieName: 'a' }
+    );
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(NitroCookieError);
+    expect(error.name).toBe('NitroCookieError');
+    expect(error.message).toBe('DOMAIN_MISMATCH: mismatch');
+    expect(error.code).toBe(CookieErrorCode.DOMAIN_MISMATCH);
+    expect(error.url).toBe('https://example.com');
+    expect(error.cookieName).toBe('a');
+  });
+});
+
+describe('toCookieError', () => {
+  it('maps native code prefixes to error codes', () => {
+    const native = new Error(
+      "java.lang.Exception: INVALID_URL: Invalid URL: 'example.com'"
+    );
+    const error = toCookieError(native, { url: 'example.com' });
+    expect(error.code).toBe(CookieErrorCode.INVALID_URL);
+    expect(error.message).toBe("INVALID_URL: Invalid URL: 'example.com'");
+    expect(error.url).toBe('example.com');
+    expect(error.cause).toBe(native);
+  });
+
+  it('reports errors without a code as STORAGE_ERROR', () => {
+    expect(toCookieError(new Error('boom')).code).toBe(
+      CookieErrorCode.STORAGE_ERROR
+    );
+    expect(toCookieError('boom').message).toBe('STORAGE_ERROR: boom');
+  });
+
+  it('fills in missing context on existing errors', () => {
+    const original = new NitroCookieError(CookieErrorCode.PARSE_ERROR, 'bad', {
+      url: 'https://a.com',
+    });
+    const error = toCookieError(original, {
+      url: 'https://b.com',
+      cookieName: 'x',
+    });
+    expect(error.message).toBe('PARSE_ERROR: bad');
+    expect(error.url).toBe('https://a.com');
+    expect(error.cookieName).toBe('x');
+    expect(toCookieError(original, { url: 'https://b.com' })).toBe(original);
+  });
+});
+
+describe('isCookieError', () => {
+  const error = new NitroCookieError(
+    CookieErrorCode.PLATFORM_UNSUPPORTED,
+    'iOS only'
+  );
+
+  it('matches NitroCookieError instances', () => {
+    expect(isCookieError(error)).toBe(true);
+    expect(isCookieError(new Error('PLATFORM_UNSUPPORTED: x'))).toBe(false);
+    expect(isCookieError(undefined)).toBe(false);
+  });
+
+  it('matches a specific code', () => {
+    expect(isCookieError(error, CookieErrorCode.PLATFORM_UNSUPPORTED)).toBe(
+      true
+    );
+    expect(isCookieError(error, CookieErrorCode.INVALID_URL)).toBe(false);
+  });
+});
+
+describe('withCookieErrors', () => {
+  it('rethrows synchronous failures as NitroCookieError', () => {
+    expect(() =>
+      withCookieErrors({ url: 'https://example.com' }, () => {
+        throw new Error('DOMAIN_MISMATCH: nope');
+      })
+    ).toThrow(NitroCookieError);
+  });
+
+  it('rejects asynchronous failures with NitroCookieError', async () => {
+    await expect(
+      withCookieErrorsAsync({}, async () => {
+        throw new Error('NETWORK_ERROR: offline');
+      })
+    ).rejects.toMatchObject({ code: CookieErrorCode.NETWORK_ERROR });
+  });
+});
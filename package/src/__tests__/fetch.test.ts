@@ -0,0 +1,165 @@
+import NitroCookies, { createCookieFetch } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+function mockFetch(setCookies: string[] = [], responseUrl = '') {
+  const headers = new Headers();
+  for (const setCookie of setCookies) {
+    headers.append('Set-Cookie', setCookie);
+  }
+  return jest.fn<Promise<Response>, [unknown, RequestInit?]>(
+    async () => ({ url: responseUrl, headers }) as unknown as Response
+  );
+}
+
+function sentCookie(fetchImpl: ReturnType<typeof mockFetch>, call = 0) {
+  const init = fetchImpl.mock.calls[call]![1]!;
+  return new Headers(init.headers).get('cookie');
+}
+
+describe('createCookieFetch', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('attaches matching cookies and omits platform cookie handling', async () => {
+    NitroCookies.setSync('https://example.com', { name: 'a', value: '1' });
+    NitroCookies.setSync('https://example.com', {
+      name: 'b',
+      value: '2',
+      path: '/admin',
+    });
+    const fetchImpl = mockFetch();
+    const cookieFetch = createCookieFetch({ fetch: fetchImpl });
+
+    await cookieFetch('https://example.com/api', {
+      headers: { Cookie: 'manual=1' },
+    });
+
+    expect(sentCookie(fetchImpl)).toBe('manual=1; a=1');
+    expect(fetchImpl.mock.calls[0]![1]!.credentials).toBe('omit');
+  });
+
+  it('does not send Secure cookies over http', async () => {
+    NitroCookies.setSync('https://example.com', {
+      name: 'a',
+      value: '1',
+      secure: true,
+    });
+    const fetchImpl = mockFetch();
+    await createCookieFetch({ fetch: fetchImpl, sync: true })(
+      'http://example.com'
+    );
+    expect(sentCookie(fetchImpl)).toBeNull();
+  });
+
+  it('stores every Set-Cookie header and ignores invalid ones', async () => {
+    const fetchImpl = mockFetch(
+      ['a=1; Path=/', 'b=2; Domain=other.com', 'nameless', 'c=3; HttpOnly'],
+      'https://www.example.com/login'
+    );
+    await createCookieFetch({ fetch: fetchImpl })('https://example.com/login');
+
+    const cookies = NitroCookies.getSync('https://www.example.com');
+    expect(Object.keys(cookies)).toEqual(['a', 'c']);
+    expect(cookies.c?.httpOnly).toBe(true);
+  });
+
+  it('splits folded Set-Cookie headers', async () => {
+    const headers = {
+      get: (name: string) =>
+        name === 'set-cookie'
+          ? 'a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT, b=2'
+          : null,
+    };
+    const fetchImpl = jest.fn(
+      async () => ({ url: '', headers }) as unknown as Response
+    );
+    await createCookieFetch({ fetch: fetchImpl, sync: true })(
+      'https://example.com'
+    );
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('applies the credentials policy', async () => {
+    NitroCookies.setSync('https://example.com', { name: 'a', value: '1' });
+    const fetchImpl = mockFetch(['b=2']);
+    const cookieFetch = createCookieFetch({
+      fetch: fetchImpl,
+      credentials: 'same-origin',
+      origin: 'https://example.com',
+    });
+
+    await cookieFetch('https://example.com');
+    await cookieFetch('https://example.com', { credentials: 'omit' });
+    await cookieFetch('https://sub.example.com');
+
+    expect(sentCookie(fetchImpl, 0)).toBe('a=1');
+    expect(sentCookie(fetchImpl, 1)).toBeNull();
+    expect(sentCookie(fetchImpl, 2)).toBeNull();
+    expect(
+      Object.keys(NitroCookies.getSync('https://sub.example.com'))
+    ).toEqual(['a']);
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('reads the credentials policy of a Request input', async () => {
+    NitroCookies.setSync('https://example.com', { name: 'a', value: '1' });
+    const fetchImpl = mockFetch(['b=2']);
+    const cookieFetch = createCookieFetch({ fetch: fetchImpl });
+
+    await cookieFetch(
+      new Request('https://example.com', { credentials: 'omit' })
+    );
+    await cookieFetch(
+      new Request('https://example.com', { credentials: 'omit' }),
+      { credentials: 'include' }
+    );
+
+    expect(sentCookie(fetchImpl, 0)).toBeNull();
+    expect(sentCookie(fetchImpl, 1)).toBe('a=1');
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('only handles cookies for allowed hosts', async () => {
+    NitroCookies.setSync('https://other.com', { name: 'a', value: '1' });
+    const fetchImpl = mockFetch(['b=2']);
+    const cookieFetch = createCookieFetch({
+      fetch: fetchImpl,
+      allowedHosts: ['example.com'],
+    });
+
+    await cookieFetch('https://other.com');
+    await cookieFetch('https://api.example.com');
+
+    expect(sentCookie(fetchImpl, 0)).toBeNull();
+    expect(Object.keys(NitroCookies.getSync('https://other.com'))).toEqual([
+      'a',
+    ]);
+    expect(
+      Object.keys(NitroCookies.getSync('https://api.example.com'))
+    ).toEqual(['b']);
+  });
+
+  it('targets the WebKit store', async () => {
+    const fetchImpl = mockFetch(['a=1']);
+    await createCookieFetch({ fetch: fetchImpl, useWebKit: true })(
+      'https://example.com'
+    );
+    expect(NitroCookies.getSync('https://example.com')).toEqual({});
+    expect(
+      Object.keys(await NitroCookies.get('https://example.com', true))
+    ).toEqual(['a']);
+  });
+});
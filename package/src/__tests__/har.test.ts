@@ -0,0 +1,193 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import type { HarLog } from '../index';
+import { nitroCookiesMock } from '../jest';
+import { fromHarCookie, toHarCookie } from '../har';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const future = '2099-01-01T00:00:00.000Z';
+
+const har: HarLog = {
+  log: {
+    entries: [
+      {
+        request: {
+          url: 'https://example.com/account/login',
+          cookies: [{ name: 'theme', value: 'dark' }],
+        },
+        response: {
+          cookies: [
+            {
+              name: 'session',
+              value: 'abc',
+              domain: '.example.com',
+              path: '/',
+              expires: future,
+              httpOnly: true,
+              secure: true,
+              sameSite: 'lax',
+            },
+            { name: 'step', value: '1' },
+          ],
+        },
+      },
+      {
+        request: { url: 'https://example.com/' },
+        response: {
+          cookies: [{ name: 'session', value: 'def', domain: '.example.com' }],
+        },
+      },
+    ],
+  },
+};
+
+describe('fromHarCookie', () => {
+  it('fills in the domain and path from the request URL', () => {
+    expect(
+      fromHarCookie(
+        { name: 'step', value: '1' },
+        'https://example.com/account/login',
+        false
+      )
+    ).toEqual({
+      name: 'step',
+      value: '1',
+      domain: 'example.com',
+      path: '/account',
+    });
+    expect(
+      fromHarCookie({ name: 'a', value: '1' }, 'https://example.com/x/y', true)
+        .path
+    ).toBe('/');
+  });
+
+  it('rejects invalid cookies', () => {
+    expect(() =>
+      fromHarCookie({ name: 'a' }, 'https://example.com', false)
+    ).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.INVALID_COOKIE })
+    );
+    expect(() =>
+      fromHarCookie(
+        { name: 'a', value: '1', expires: 'soon' },
+        undefined,
+        false
+      )
+    ).toThrow(expect.objectContaining({ cookieName: 'a' }));
+    expect(() =>
+      fromHarCookie({ name: 'a', value: '1' }, 'not a url', false)
+    ).toThrow(
+      expect.objectContaining({
+        code: CookieErrorCode.INVALID_URL,
+        cookieName: 'a',
+      })
+    );
+  });
+});
+
+describe('HAR import and export', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('imports request and response cookies in entry order', async () => {
+    expect(await NitroCookies.importHar(JSON.stringify(har))).toEqual({
+      imported: 4,
+      skipped: 0,
+      failures: [],
+    });
+
+    const cookies = NitroCookies.getSync('https://example.com');
+    expect(cookies.session).toEqual({
+      name: 'session',
+      value: 'def',
+      domain: 'example.com',
+      path: '/',
+    });
+    expect(cookies.theme?.value).toBe('dark');
+    expect(Object.keys(cookies)).toEqual(['theme', 'session', 'step']);
+  });
+
+  it('imports cookies from one source', async () => {
+    const result = await NitroCookies.importHar(har, { source: 'request' });
+    expect(result.imported).toBe(1);
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'theme',
+    ]);
+  });
+
+  it('reports invalid cookies with their entry index', async () => {
+    const result = await NitroCookies.importHar({
+      log: {
+        entries: [
+          ...har.log.entries,
+          {
+            request: { url: 'https://example.com' },
+            response: { cookies: [{ name: 'x' } as never] },
+          },
+        ],
+      },
+    });
+    expect(result.imported).toBe(4);
+    expect(result.failures).toEqual([
+      expect.objectContaining({
+        index: 2,
+        name: 'x',
+        error: expect.objectContaining({
+          code: CookieErrorCode.INVALID_COOKIE,
+        }),
+      }),
+    ]);
+  });
+
+  it('rejects documents without entries', async () => {
+    await expect(NitroCookies.importHar('{}')).rejects.toMatchObject({
+      code: CookieErrorCode.PARSE_ERROR,
+    });
+    await expect(NitroCookies.importHar('<html>')).rejects.toThrow(
+      'not valid JSON'
+    );
+  });
+
+  it('exports the store as HAR cookies', async () => {
+    NitroCookies.setSync('https://example.com', {
+      name: 'session',
+      value: 'abc',
+      secure: true,
+      sameSite: 'Lax',
+      expires: future,
+    });
+    NitroCookies.setSync('https://other.com', { name: 'lang', value: 'en' });
+
+    expect(
+      await NitroCookies.exportHarCookies({ domains: ['example.com'] })
+    ).toEqual([
+      {
+        name: 'session',
+        value: 'abc',
+        path: '/',
+        domain: 'example.com',
+        httpOnly: false,
+        secure: true,
+        expires: future,
+        sameSite: 'Lax',
+      },
+    ]);
+  });
+
+  it('round-trips exported cookies', () => {
+    const cookie = {
+      name: 'session',
+      value: 'abc',
+      path: '/app',
+      domain: '.example.com',
+      httpOnly: true,
+      secure: true,
+      expires: future,
+    };
+    expect(fromHarCookie(toHarCookie(cookie), undefined, false)).toEqual(
+      cookie
+    );
+  });
+});
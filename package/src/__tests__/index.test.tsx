@@ -1,5 +1,370 @@
+import NitroCookies, { CookieErrorCode, NitroCookieError } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+
 describe('react-native-nitro-cookies', () => {
-  it('should pass placeholder test', () => {
-    expect(true).toBe(true);
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('sets and gets cookies synchronously', () => {
+    expect(
+      NitroCookies.setSync(url, { name: 'session', value: 'abc', secure: true })
+    ).toBe(true);
+    expect(NitroCookies.getSync(url)).toEqual({
+      session: {
+        name: 'session',
+        value: 'abc',
+        path: '/',
+        domain: 'example.com',
+        secure: true,
+      },
+    });
+  });
+
+  it('matches parent domains and respects expiry', async () => {
+    await NitroCookies.set(url, {
+      name: 'shared',
+      value: '1',
+      domain: '.example.com',
+    });
+    await NitroCookies.set(url, { name: 'gone', value: '1', maxAge: 0 });
+
+    const cookies = await NitroCookies.get('https://api.example.com');
+    expect(Object.keys(cookies)).toEqual(['shared']);
+    expect(await NitroCookies.get('https://other.com')).toEqual({});
+  });
+
+  it('expires cookies over time', () => {
+    jest.useFakeTimers({ now: Date.UTC(2030, 0, 1) });
+    try {
+      NitroCookies.setSync(url, { name: 'short', value: '1', maxAge: 60 });
+      expect(NitroCookies.getSync(url).short?.expires).toBe(
+        '2030-01-01T00:01:00.000Z'
+      );
+      jest.advanceTimersByTime(61_000);
+      expect(NitroCookies.getSync(url)).toEqual({});
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('stores Set-Cookie headers through the shared parser', () => {
+    NitroCookies.setFromResponseSync(
+      `${url}/account/login`,
+      'a=1; Path=/; HttpOnly\nb=2; Path=/; SameSite=Lax'
+    );
+    const cookies = NitroCookies.getSync(url);
+    expect(cookies.a?.httpOnly).toBe(true);
+    expect(cookies.b?.sameSite).toBe('Lax');
+  });
+
+  it('keeps response cookies without a Domain attribute host-only', () => {
+    for (const platform of ['ios', 'android'] as const) {
+      nitroCookiesMock.reset();
+      nitroCookiesMock.setPlatform(platform);
+      NitroCookies.setFromResponseSync(url, 'a=1\nb=2; Domain=example.com');
+
+      expect(Object.keys(NitroCookies.getSync(url))).toEqual(['a', 'b']);
+      expect(
+        Object.keys(NitroCookies.getSync('https://sub.example.com'))
+      ).toEqual(['b']);
+    }
+  });
+
+  it('stores nothing from a response with a mismatched Domain', async () => {
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener);
+
+    expect(() =>
+      NitroCookies.setFromResponseSync(url, 'a=1\nb=2; Domain=evil.com')
+    ).toThrow(
+      expect.objectContaining({
+        code: CookieErrorCode.DOMAIN_MISMATCH,
+        cookieName: 'b',
+      })
+    );
+    await expect(
+      NitroCookies.setFromResponse(url, 'a=1, b=2; Domain=evil.com', true)
+    ).rejects.toMatchObject({ code: CookieErrorCode.DOMAIN_MISMATCH });
+    unsubscribe();
+
+    expect(NitroCookies.getSync(url)).toEqual({});
+    expect(await NitroCookies.get(url, true)).toEqual({});
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('parses cookies returned by getFromResponse', async () => {
+    nitroCookiesMock.setResponseHeaders(url, [
+      'a=1; Max-Age=3600, b=2; Priority=High',
+      'malformed',
+    ]);
+    const cookies = await NitroCookies.getFromResponse(url);
+    expect(cookies.a?.maxAge).toBe(3600);
+    expect(cookies.b?.extensions).toEqual({ Priority: 'High' });
+  });
+
+  it('clears cookies by name', async () => {
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    expect(NitroCookies.clearByNameSync(url, 'a')).toBe(true);
+    expect(await NitroCookies.clearByName(url, 'a')).toBe(false);
+  });
+
+  it('keeps the WebKit store separate on iOS', async () => {
+    await NitroCookies.set(url, { name: 'web', value: '1' }, true);
+    expect(await NitroCookies.get(url)).toEqual({});
+    expect(Object.keys(await NitroCookies.get(url, true))).toEqual(['web']);
+    await NitroCookies.clearAll(true);
+    expect(await NitroCookies.getAll(true)).toEqual({});
+  });
+
+  it('drops attributes HTTPCookie does not model on iOS', async () => {
+    NitroCookies.setFromResponseSync(
+      url,
+      'a=1; Secure; SameSite=None; Partitioned; Priority=High'
+    );
+    const expected = {
+      a: {
+        name: 'a',
+        value: '1',
+        path: '/',
+        domain: 'example.com',
+        hostOnly: true,
+        secure: true,
+      },
+    };
+    expect(NitroCookies.getSync(url)).toEqual(expected);
+    expect(await NitroCookies.getAll()).toEqual(expected);
+  });
+
+  it('reproduces Android platform behavior', async () => {
+    nitroCookiesMock.setPlatform('android');
+    await NitroCookies.set(url, { name: 'a', value: '1', secure: true }, true);
+
+    expect(NitroCookies.getSync(url)).toEqual({
+      a: { name: 'a', value: '1', path: '/', domain: 'example.com' },
+    });
+    expect(NitroCookies.getSync('http://example.com')).toEqual({});
+    await expect(NitroCookies.getAll()).rejects.toMatchObject({
+      code: CookieErrorCode.PLATFORM_UNSUPPORTED,
+    });
+    expect(await NitroCookies.removeSessionCookies()).toBe(true);
+  });
+
+  it('throws NitroCookieError with context', () => {
+    expect.assertions(4);
+    try {
+      NitroCookies.setSync('https://example.com', {
+        name: 'a',
+        value: '1',
+        domain: 'other.com',
+      });
+    } catch (error) {
+      expect(error).toBeInstanceOf(NitroCookieError);
+      expect((error as NitroCookieError).code).toBe(
+        CookieErrorCode.DOMAIN_MISMATCH
+      );
+      expect((error as NitroCookieError).url).toBe(url);
+      expect((error as NitroCookieError).cookieName).toBe('a');
+    }
+  });
+
+  it('emits change events after successful mutations', async () => {
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener);
+
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    await NitroCookies.setFromResponse(url, 'b=2\nc=3', true);
+    await NitroCookies.clearByName(url, 'missing');
+    NitroCookies.clearByNameSync(url, 'a');
+    expect(() =>
+      NitroCookies.setSync(url, { name: 'd', value: '4', domain: 'other.com' })
+    ).toThrow();
+    await NitroCookies.clearAll(true);
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      {
+        type: 'set',
+        url,
+        cookie: { name: 'a', value: '1' },
+        store: 'http',
+      },
+      {
+        type: 'set',
+        url,
+        cookie: expect.objectContaining({ name: 'b' }),
+        store: 'webkit',
+      },
+      {
+        type: 'set',
+        url,
+        cookie: expect.objectContaining({ name: 'c' }),
+        store: 'webkit',
+      },
+      { type: 'removed', url, cookie: { name: 'a' }, store: 'http' },
+      { type: 'cleared', store: 'webkit' },
+    ]);
+
+    unsubscribe();
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    expect(listener).toHaveBeenCalledTimes(5);
+  });
+
+  it('filters change events by domain and name', async () => {
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener, {
+      domain: 'example.com',
+      name: 'session',
+    });
+
+    NitroCookies.setSync('https://api.example.com', {
+      name: 'session',
+      value: '1',
+    });
+    NitroCookies.setSync(url, { name: 'other', value: '1' });
+    NitroCookies.setSync('https://example.org', {
+      name: 'session',
+      value: '1',
+    });
+    await NitroCookies.removeSessionCookies();
+    nitroCookiesMock.setPlatform('android');
+    await NitroCookies.removeSessionCookies();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      'set',
+      'cleared',
+    ]);
+    unsubscribe();
+  });
+
+  it('isolates listener failures from the mutation', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = jest.fn();
+    const unsubscribeFailing = NitroCookies.addListener('change', () => {
+      throw new Error('boom');
+    });
+    const unsubscribe = NitroCookies.addListener('change', listener);
+
+    expect(NitroCookies.setSync(url, { name: 'a', value: '1' })).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalled();
+
+    unsubscribeFailing();
+    unsubscribe();
+    error.mockRestore();
+  });
+
+  it('rejects unsupported event names', () => {
+    expect(() =>
+      NitroCookies.addListener('update' as 'change', jest.fn())
+    ).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.INVALID_ARGUMENT })
+    );
+  });
+
+  it('reports a result per cookie from setManySync', () => {
+    const results = NitroCookies.setManySync(url, [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2', sameSite: 'None' },
+      { name: 'c', value: '3', domain: 'other.com' },
+    ]);
+
+    expect(results.map(({ name, success }) => ({ name, success }))).toEqual([
+      { name: 'a', success: true },
+      { name: 'b', success: false },
+      { name: 'c', success: false },
+    ]);
+    expect(results[1]?.error?.code).toBe(CookieErrorCode.INVALID_COOKIE);
+    expect(results[2]?.error).toBeInstanceOf(NitroCookieError);
+    expect(results[2]?.error).toMatchObject({
+      code: CookieErrorCode.DOMAIN_MISMATCH,
+      url,
+      cookieName: 'c',
+    });
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['a']);
+  });
+
+  it('reads several URLs and reports invalid ones', () => {
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    NitroCookies.setSync('https://other.com', { name: 'b', value: '2' });
+
+    const [first, second, third] = NitroCookies.getManySync([
+      url,
+      'https://other.com',
+      'other.com',
+    ]);
+    expect(Object.keys(first!.cookies)).toEqual(['a']);
+    expect(first!.error).toBeUndefined();
+    expect(Object.keys(second!.cookies)).toEqual(['b']);
+    expect(third).toMatchObject({
+      url: 'other.com',
+      cookies: {},
+      error: { code: CookieErrorCode.INVALID_URL },
+    });
+  });
+
+  it('clears several cookies by name', async () => {
+    NitroCookies.setManySync(url, [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2' },
+    ]);
+
+    expect(NitroCookies.clearByNamesSync(url, ['a', 'missing'])).toEqual([
+      { name: 'a', removed: true },
+      { name: 'missing', removed: false },
+    ]);
+    expect(await NitroCookies.clearByNames(url, ['b'])).toEqual([
+      { name: 'b', removed: true },
+    ]);
+    expect(NitroCookies.getSync(url)).toEqual({});
+  });
+
+  it('runs async batches against the WebKit store', async () => {
+    const results = await NitroCookies.setMany(
+      url,
+      [{ name: 'web', value: '1' }],
+      true
+    );
+    expect(results).toEqual([{ name: 'web', success: true }]);
+
+    const [webKit] = await NitroCookies.getMany([url], true);
+    expect(Object.keys(webKit!.cookies)).toEqual(['web']);
+    const [http] = await NitroCookies.getMany([url]);
+    expect(http!.cookies).toEqual({});
+  });
+
+  it('emits change events for batch mutations', () => {
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener);
+
+    NitroCookies.setManySync(url, [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2', sameSite: 'None' },
+    ]);
+    NitroCookies.clearByNamesSync(url, ['a', 'missing']);
+    unsubscribe();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      'set',
+      'removed',
+    ]);
+  });
+
+  it('skips the native call for empty batches', () => {
+    const setManySync = jest.spyOn(nitroCookiesMock, 'setManySync');
+    expect(NitroCookies.setManySync(url, [])).toEqual([]);
+    expect(NitroCookies.getManySync([])).toEqual([]);
+    expect(setManySync).not.toHaveBeenCalled();
+    setManySync.mockRestore();
+  });
+
+  it('rejects invalid URLs', async () => {
+    await expect(NitroCookies.get('example.com')).rejects.toMatchObject({
+      code: CookieErrorCode.INVALID_URL,
+    });
   });
 });
@@ -0,0 +1,186 @@
+import NitroCookies, { BROWSER_COOKIE_LIMITS, CookieErrorCode } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+const exceeded = expect.objectContaining({
+  code: CookieErrorCode.LIMIT_EXCEEDED,
+});
+
+describe('cookie limits', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+  afterEach(() => NitroCookies.configure({ limits: {} }));
+
+  it('accepts any cookie without limits', () => {
+    expect(
+      NitroCookies.setSync(url, { name: 'big', value: 'x'.repeat(5000) })
+    ).toBe(true);
+  });
+
+  it('rejects cookies over the size limit', async () => {
+    NitroCookies.configure({ limits: BROWSER_COOKIE_LIMITS });
+
+    expect(
+      NitroCookies.setSync(url, { name: 'ok', value: 'x'.repeat(4094) })
+    ).toBe(true);
+    expect(() =>
+      NitroCookies.setSync(url, { name: 'big', value: 'é'.repeat(2048) })
+    ).toThrow('4099 bytes');
+    await expect(
+      NitroCookies.set(url, { name: 'big', value: 'x'.repeat(4096) }, true)
+    ).rejects.toMatchObject({
+      code: CookieErrorCode.LIMIT_EXCEEDED,
+      cookieName: 'big',
+    });
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['ok']);
+  });
+
+  it('rejects cookies over the per-domain count', () => {
+    NitroCookies.configure({ limits: { maxCookiesPerDomain: 2 } });
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    NitroCookies.setSync(url, { name: 'b', value: '2', path: '/app' });
+    NitroCookies.setSync('https://other.com', { name: 'c', value: '3' });
+
+    expect(() => NitroCookies.setSync(url, { name: 'd', value: '4' })).toThrow(
+      exceeded
+    );
+    // Replacing a cookie doesn't add to the count
+    expect(NitroCookies.setSync(url, { name: 'a', value: '5' })).toBe(true);
+
+    NitroCookies.clearByNameSync(url, 'b');
+    expect(NitroCookies.setSync(url, { name: 'd', value: '4' })).toBe(true);
+  });
+
+  it('checks a response or batch as a whole', async () => {
+    NitroCookies.configure({ limits: { maxCookies: 2 } });
+
+    expect(() =>
+      NitroCookies.setFromResponseSync(url, 'a=1\nb=2\nc=3')
+    ).toThrow(exceeded);
+    expect(NitroCookies.getSync(url)).toEqual({});
+
+    const results = await NitroCookies.setMany(url, [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2' },
+      { name: 'c', value: '3' },
+    ]);
+    expect(results.map(({ success }) => success)).toEqual([true, true, false]);
+    expect(results[2]!.error).toEqual(exceeded);
+  });
+
+  it('evicts the oldest cookies', async () => {
+    NitroCookies.configure({
+      limits: { maxCookiesPerDomain: 2, onExceeded: 'evict' },
+    });
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    NitroCookies.setSync(url, { name: 'b', value: '2' });
+    NitroCookies.setSync(url, { name: 'a', value: '3' });
+    NitroCookies.setSync(url, { name: 'c', value: '4' });
+
+    expect(NitroCookies.getSync(url)).toEqual({
+      b: expect.objectContaining({ value: '2' }),
+      c: expect.objectContaining({ value: '4' }),
+    });
+
+    await NitroCookies.setFromResponse(url, 'd=5\ne=6');
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['d', 'e']);
+  });
+
+  it('reports evicted cookies to listeners', () => {
+    NitroCookies.configure({
+      limits: { maxCookiesPerDomain: 1, onExceeded: 'evict' },
+    });
+    NitroCookies.setSync(url, { name: 'a', value: '1', path: '/app' });
+
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener, {
+      name: 'a',
+    });
+    try {
+      NitroCookies.setSync(url, { name: 'b', value: '2' });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: 'evicted',
+      url,
+      cookie: { name: 'a', domain: 'example.com', path: '/app' },
+      store: 'http',
+    });
+  });
+
+  it('rejects oversized cookies when evicting', () => {
+    NitroCookies.configure({
+      limits: { maxCookieSize: 10, onExceeded: 'evict' },
+    });
+    expect(() =>
+      NitroCookies.setSync(url, { name: 'session', value: 'abcdef' })
+    ).toThrow(exceeded);
+  });
+
+  it('evicts by domain and path, whatever the cookie names', async () => {
+    NitroCookies.configure({
+      limits: { maxCookiesPerDomain: 2, onExceeded: 'evict' },
+    });
+    NitroCookies.setSync(url, { name: 'a', value: '1', path: '/x' });
+    NitroCookies.setSync(url, { name: 'a', value: '2', path: '/y' });
+    NitroCookies.setSync(url, { name: 'a', value: '3', path: '/z' });
+
+    const stored = await NitroCookies.find({ name: 'a' });
+    expect(stored.map(({ path, value }) => [path, value])).toEqual([
+      ['/y', '2'],
+      ['/z', '3'],
+    ]);
+  });
+
+  it('rejects cookies when nothing can be evicted', () => {
+    NitroCookies.configure({
+      limits: { maxCookiesPerDomain: 0, onExceeded: 'evict' },
+    });
+    expect(() => NitroCookies.setSync(url, { name: 'a', value: '1' })).toThrow(
+      exceeded
+    );
+  });
+
+  it('reports warnings and stores the cookie', () => {
+    const onWarning = jest.fn();
+    NitroCookies.configure({
+      limits: {
+        maxCookieSize: 10,
+        maxCookies: 1,
+        onExceeded: 'warn',
+        onWarning,
+      },
+    });
+
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    NitroCookies.setSync(url, { name: 'session', value: 'abcdef' });
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['a', 'session']);
+    expect(onWarning).toHaveBeenCalledTimes(2);
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: CookieErrorCode.LIMIT_EXCEEDED,
+        message: expect.stringContaining('13 bytes'),
+        cookieName: 'session',
+      })
+    );
+  });
+
+  it('only counts cookies that are still stored', () => {
+    NitroCookies.configure({ limits: { maxCookies: 1 } });
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    NitroCookies.setSync(url, { name: 'a', value: '', maxAge: 0 });
+    expect(NitroCookies.setSync(url, { name: 'b', value: '2' })).toBe(true);
+
+    NitroCookies.setSync(url, { name: 'b', value: '', maxAge: 0 });
+    expect(() =>
+      NitroCookies.setSync(url, { name: 'c', value: '3', maxAge: 0 })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+import NitroCookies from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+
+describe('attribute tracking', () => {
+  beforeEach(() => {
+    nitroCookiesMock.reset();
+    nitroCookiesMock.setPlatform('android');
+    NitroCookies.trackAttributes(false);
+  });
+
+  it('returns Android cookies without attributes by default', () => {
+    NitroCookies.setSync(url, { name: 'session', value: 'abc', secure: true });
+
+    expect(NitroCookies.getSync(url).session).toEqual({
+      name: 'session',
+      value: 'abc',
+      path: '/',
+      domain: 'example.com',
+    });
+  });
+
+  it('restores the attributes of cookies written through the library', async () => {
+    NitroCookies.trackAttributes();
+    NitroCookies.setSync(url, {
+      name: 'session',
+      value: 'abc',
+      domain: '.example.com',
+      secure: true,
+      httpOnly: true,
+      maxAge: 3600,
+    });
+    NitroCookies.setFromResponseSync(`${url}/api`, 'token=1; Path=/api');
+
+    const { session } = NitroCookies.getSync('https://api.example.com');
+    expect(session).toMatchObject({
+      domain: 'example.com',
+      path: '/',
+      secure: true,
+      httpOnly: true,
+    });
+    expect(session?.maxAge).toBeUndefined();
+    expect(Date.parse(session!.expires!)).toBeGreaterThan(Date.now());
+
+    const cookies = await NitroCookies.get(`${url}/api/users`);
+    expect(cookies.token).toEqual({
+      name: 'token',
+      value: '1',
+      path: '/api',
+      domain: 'example.com',
+      hostOnly: true,
+    });
+  });
+
+  it('merges attributes into batch and getAll reads', async () => {
+    NitroCookies.trackAttributes();
+    NitroCookies.trackOrigins();
+    NitroCookies.setSync(url, { name: 'session', value: 'abc', secure: true });
+
+    const [result] = NitroCookies.getManySync([url]);
+    expect(result?.cookies.session?.secure).toBe(true);
+    expect((await NitroCookies.getAll()).session?.secure).toBe(true);
+    expect(await NitroCookies.find({ secure: true })).toHaveLength(1);
+
+    NitroCookies.trackOrigins(false);
+    NitroCookies.clearTrackedOrigins();
+  });
+
+  it('forgets attributes when the value changes outside the library', () => {
+    NitroCookies.trackAttributes();
+    NitroCookies.setSync(url, { name: 'session', value: 'abc', secure: true });
+    // Written by a WebView, without a change event
+    nitroCookiesMock.setSync(url, { name: 'session', value: 'xyz' });
+
+    expect(NitroCookies.getSync(url).session).toEqual({
+      name: 'session',
+      value: 'xyz',
+      path: '/',
+      domain: 'example.com',
+    });
+
+    // The old value must not get its attributes back
+    nitroCookiesMock.setSync(url, { name: 'session', value: 'abc' });
+    expect(NitroCookies.getSync(url).session?.secure).toBeUndefined();
+  });
+
+  it('forgets removed and cleared cookies', async () => {
+    NitroCookies.trackAttributes();
+    NitroCookies.setSync(url, { name: 'a', value: '1', secure: true });
+    NitroCookies.setSync(url, { name: 'b', value: '2', secure: true });
+
+    NitroCookies.clearByNameSync(url, 'a');
+    nitroCookiesMock.setSync(url, { name: 'a', value: '1' });
+    expect(NitroCookies.getSync(url).a?.secure).toBeUndefined();
+    expect(NitroCookies.getSync(url).b?.secure).toBe(true);
+
+    await NitroCookies.clearAll();
+    nitroCookiesMock.setSync(url, { name: 'b', value: '2' });
+    expect(NitroCookies.getSync(url).b?.secure).toBeUndefined();
+  });
+
+  it('leaves iOS reads unchanged', () => {
+    nitroCookiesMock.setPlatform('ios');
+    NitroCookies.trackAttributes();
+    NitroCookies.setSync(url, { name: 'session', value: 'abc', secure: true });
+
+    expect(NitroCookies.getSync(url).session).toEqual({
+      name: 'session',
+      value: 'abc',
+      path: '/',
+      domain: 'example.com',
+      secure: true,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import { nitroCookiesMock } from '../jest';
+import { parseNetscapeLine, toNetscapeLine } from '../netscape';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+
+describe('parseNetscapeLine', () => {
+  it('parses curl cookie jar lines', () => {
+    expect(
+      parseNetscapeLine('.example.com\tTRUE\t/\tTRUE\t4070908800\tsession\tabc')
+    ).toEqual({
+      name: 'session',
+      value: 'abc',
+      domain: '.example.com',
+      path: '/',
+      secure: true,
+      expires: '2099-01-01T00:00:00.000Z',
+    });
+    expect(
+      parseNetscapeLine('#HttpOnly_api.example.com\tFALSE\t/v1\tFALSE\t0\tid\t')
+    ).toEqual({
+      name: 'id',
+      value: '',
+      domain: 'api.example.com',
+      hostOnly: true,
+      path: '/v1',
+      httpOnly: true,
+    });
+  });
+
+  it('skips blank and comment lines', () => {
+    expect(parseNetscapeLine('# Netscape HTTP Cookie File')).toBeUndefined();
+    expect(parseNetscapeLine('   \r')).toBeUndefined();
+  });
+
+  it('rejects malformed lines', () => {
+    expect(() => parseNetscapeLine('example.com\tTRUE\t/')).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.PARSE_ERROR })
+    );
+    expect(() =>
+      parseNetscapeLine('example.com\tYES\t/\tFALSE\t0\ta\t1')
+    ).toThrow('includeSubdomains');
+    expect(() =>
+      parseNetscapeLine('example.com\tTRUE\t/\tFALSE\tsoon\ta\t1')
+    ).toThrow(expect.objectContaining({ cookieName: 'a' }));
+  });
+
+  it('formats cookies as lines', () => {
+    expect(
+      toNetscapeLine({
+        name: 'session',
+        value: 'abc',
+        domain: '.example.com',
+        path: '/',
+        secure: true,
+        httpOnly: true,
+        expires: '2099-01-01T00:00:00.000Z',
+      })
+    ).toBe('#HttpOnly_.example.com\tTRUE\t/\tTRUE\t4070908800\tsession\tabc');
+    expect(
+      toNetscapeLine({ name: 'a', value: '1', domain: 'example.com' })
+    ).toBe('example.com\tTRUE\t/\tFALSE\t0\ta\t1');
+    expect(
+      toNetscapeLine({
+        name: 'a',
+        value: '1',
+        domain: '.example.com',
+        hostOnly: true,
+      })
+    ).toBe('example.com\tFALSE\t/\tFALSE\t0\ta\t1');
+  });
+});
+
+describe('cookies.txt import and export', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('exports the store with a header', async () => {
+    NitroCookies.setSync(url, {
+      name: 'session',
+      value: 'abc',
+      secure: true,
+      expires: '2099-01-01T00:00:00.000Z',
+    });
+
+    expect(await NitroCookies.exportNetscape()).toBe(
+      [
+        '# Netscape HTTP Cookie File',
+        '',
+        'example.com\tTRUE\t/\tTRUE\t4070908800\tsession\tabc',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('exports domain cookies read back from the store with subdomains', async () => {
+    NitroCookies.setFromResponseSync(
+      'https://api.example.com',
+      'session=abc; Domain=.example.com'
+    );
+    expect(NitroCookies.getSync(url).session?.domain).toBe('example.com');
+
+    const text = await NitroCookies.exportNetscape({
+      domains: ['example.com'],
+    });
+    expect(text).toContain('example.com\tTRUE\t/\tFALSE\t0\tsession\tabc');
+
+    await NitroCookies.importNetscape(text, { mode: 'replace' });
+    expect(NitroCookies.getSync('https://www.example.com').session?.value).toBe(
+      'abc'
+    );
+  });
+
+  it('exports host-only cookies without subdomains', async () => {
+    NitroCookies.setFromResponseSync(url, 'session=abc');
+    NitroCookies.setFromResponseSync(url, 'theme=dark; Domain=example.com');
+
+    const text = await NitroCookies.exportNetscape();
+    expect(text).toContain('example.com\tFALSE\t/\tFALSE\t0\tsession\tabc');
+    expect(text).toContain('example.com\tTRUE\t/\tFALSE\t0\ttheme\tdark');
+
+    await NitroCookies.importNetscape(text, { mode: 'replace' });
+    expect(
+      Object.keys(NitroCookies.getSync('https://www.example.com'))
+    ).toEqual(['theme']);
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual([
+      'session',
+      'theme',
+    ]);
+  });
+
+  it('imports a curl cookie jar and reports bad lines', async () => {
+    const text = [
+      '# Netscape HTTP Cookie File',
+      '# https://curl.se/docs/http-cookies.html',
+      '',
+      '#HttpOnly_.example.com\tTRUE\t/\tTRUE\t4070908800\tsession\tabc',
+      'example.com\tFALSE\t/\tFALSE\t0\ttheme\tdark',
+      'example.com\tFALSE\t/\tFALSE\t946684800\told\t1',
+      'example.com\tTRUE\t/',
+    ].join('\r\n');
+
+    const result = await NitroCookies.importNetscape(text);
+    expect(result).toMatchObject({ imported: 2, skipped: 1 });
+    expect(result.failures).toEqual([
+      expect.objectContaining({
+        index: 7,
+        error: expect.objectContaining({ code: CookieErrorCode.PARSE_ERROR }),
+      }),
+    ]);
+    expect(NitroCookies.getSync('https://api.example.com').session).toEqual({
+      name: 'session',
+      value: 'abc',
+      domain: 'example.com',
+      path: '/',
+      secure: true,
+      httpOnly: true,
+      expires: '2099-01-01T00:00:00.000Z',
+    });
+    expect(NitroCookies.getSync(url).theme?.value).toBe('dark');
+  });
+
+  it('round-trips exported cookies', async () => {
+    NitroCookies.setSync(url, { name: 'a', value: '1', path: '/app' });
+    await NitroCookies.set(url, { name: 'b', value: '2' }, true);
+    const text = await NitroCookies.exportNetscape({ store: 'webkit' });
+
+    expect(
+      await NitroCookies.importNetscape(text, { mode: 'replace' })
+    ).toEqual({ imported: 1, skipped: 0, failures: [] });
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['b']);
+  });
+});
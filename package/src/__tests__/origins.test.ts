@@ -0,0 +1,112 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+describe('origin tracking', () => {
+  beforeEach(() => {
+    nitroCookiesMock.reset();
+    nitroCookiesMock.setPlatform('android');
+    NitroCookies.trackOrigins(false);
+    NitroCookies.clearTrackedOrigins();
+  });
+
+  it('rejects getAll on Android without tracking', async () => {
+    await expect(NitroCookies.getAll()).rejects.toMatchObject({
+      code: CookieErrorCode.PLATFORM_UNSUPPORTED,
+    });
+  });
+
+  it('records the URLs cookies are written for', async () => {
+    NitroCookies.trackOrigins();
+    NitroCookies.setSync('https://example.com/account', {
+      name: 'session',
+      value: '1',
+    });
+    await NitroCookies.set('http://api.example.com', {
+      name: 'token',
+      value: '2',
+      path: '/v1',
+      secure: true,
+    });
+    NitroCookies.setFromResponseSync('http://other.com', 'theme=dark');
+
+    expect(NitroCookies.getTrackedOrigins()).toEqual([
+      'https://example.com/',
+      'https://api.example.com/v1',
+      'http://other.com/',
+    ]);
+  });
+
+  it('answers getAll and find from tracked origins', async () => {
+    NitroCookies.trackOrigins();
+    NitroCookies.setManySync('https://example.com', [
+      { name: 'session', value: '1' },
+      { name: 'theme', value: 'dark' },
+    ]);
+    NitroCookies.setSync('https://other.com', { name: 'lang', value: 'en' });
+
+    expect(Object.keys(await NitroCookies.getAll())).toEqual([
+      'session',
+      'theme',
+      'lang',
+    ]);
+    const found = await NitroCookies.find({ name: /^(session|lang)$/ });
+    expect(found.map((cookie) => cookie.domain)).toEqual([
+      'example.com',
+      'other.com',
+    ]);
+  });
+
+  it('returns cookies visible from several origins once', async () => {
+    NitroCookies.trackOrigins();
+    NitroCookies.setSync('https://example.com', { name: 'root', value: '1' });
+    NitroCookies.setSync('https://example.com', {
+      name: 'api',
+      value: '2',
+      path: '/api',
+    });
+
+    const cookies = await NitroCookies.find();
+    expect(cookies.map((cookie) => cookie.name)).toEqual(['root', 'api']);
+  });
+
+  it('reads registered origins only while tracking', async () => {
+    NitroCookies.setSync('https://example.com', {
+      name: 'session',
+      value: '1',
+    });
+    NitroCookies.registerOrigin('https://example.com');
+    expect(NitroCookies.getTrackedOrigins()).toEqual(['https://example.com/']);
+    await expect(NitroCookies.getAll()).rejects.toMatchObject({
+      code: CookieErrorCode.PLATFORM_UNSUPPORTED,
+    });
+
+    NitroCookies.trackOrigins();
+    expect(Object.keys(await NitroCookies.getAll())).toEqual(['session']);
+
+    NitroCookies.trackOrigins(false);
+    NitroCookies.setSync('https://other.com', { name: 'lang', value: 'en' });
+    expect(NitroCookies.getTrackedOrigins()).toEqual(['https://example.com/']);
+  });
+
+  it('validates registered URLs', () => {
+    expect(() => NitroCookies.registerOrigin('example.com')).toThrow(
+      expect.objectContaining({ code: CookieErrorCode.INVALID_URL })
+    );
+  });
+
+  it('keeps using the native getAll on iOS', async () => {
+    nitroCookiesMock.setPlatform('ios');
+    NitroCookies.setSync('https://example.com', {
+      name: 'session',
+      value: '1',
+    });
+
+    expect(Object.keys(await NitroCookies.getAll())).toEqual(['session']);
+    expect(NitroCookies.getTrackedOrigins()).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+import { parseSetCookie, splitSetCookieHeader } from '../parser';
+
+describe('parseSetCookie', () => {
+  const url = 'https://example.com/account/login';
+
+  it('parses name, value and attributes', () => {
+    expect(
+      parseSetCookie(
+        'session=abc123; Path=/; Domain=.Example.com; Expires=Wed, 21 Oct 2030 07:28:00 GMT; Secure; HttpOnly',
+        url
+      )
+    ).toEqual({
+      name: 'session',
+      value: 'abc123',
+      path: '/',
+      domain: 'example.com',
+      expires: '2030-10-21T07:28:00.000Z',
+      secure: true,
+      httpOnly: true,
+    });
+  });
+
+  it('applies default path and host-only domain', () => {
+    expect(parseSetCookie('id=1', url)).toEqual({
+      name: 'id',
+      value: '1',
+      path: '/account',
+      domain: 'example.com',
+    });
+  });
+
+  it('falls back to the default path for relative Path values', () => {
+    expect(parseSetCookie('id=1; Path=relative', url).path).toBe('/account');
+  });
+
+  it('trims whitespace and keeps "=" inside the value', () => {
+    const cookie = parseSetCookie('  token = a=b=c ;secure', url);
+    expect(cookie.name).toBe('token');
+    expect(cookie.value).toBe('a=b=c');
+    expect(cookie.secure).toBe(true);
+  });
+
+  it('accepts empty values', () => {
+    expect(parseSetCookie('empty=', url).value).toBe('');
+  });
+
+  it('parses SameSite case-insensitively and ignores unknown values', () => {
+    expect(parseSetCookie('a=1; SameSite=strict', url).sameSite).toBe('Strict');
+    expect(parseSetCookie('a=1; samesite=LAX', url).sameSite).toBe('Lax');
+    expect(parseSetCookie('a=1; SameSite=None; Secure', url).sameSite).toBe(
+      'None'
+    );
+    expect(parseSetCookie('a=1; SameSite=sometimes', url).sameSite).toBe(
+      undefined
+    );
+  });
+
+  it('gives Max-Age precedence over Expires', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2030, 0, 1));
+    try {
+      const cookie = parseSetCookie(
+        'a=1; Max-Age=3600; Expires=Wed, 21 Oct 2099 07:28:00 GMT',
+        url
+      );
+      expect(cookie.maxAge).toBe(3600);
+      expect(cookie.expires).toBe('2030-01-01T01:00:00.000Z');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('expires cookies immediately for non-positive Max-Age', () => {
+    const cookie = parseSetCookie('a=1; Max-Age=0', url);
+    expect(cookie.maxAge).toBe(0);
+    expect(cookie.expires).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('ignores malformed Max-Age attributes', () => {
+    const cookie = parseSetCookie('a=1; Max-Age=1h', url);
+    expect(cookie.maxAge).toBe(undefined);
+    expect(cookie.expires).toBe(undefined);
+  });
+
+  it('parses the Partitioned attribute', () => {
+    expect(parseSetCookie('a=1; Secure; Partitioned', url).partitioned).toBe(
+      true
+    );
+    expect(parseSetCookie('a=1; Secure', url).partitioned).toBe(undefined);
+  });
+
+  it('preserves unknown attributes as extensions', () => {
+    expect(
+      parseSetCookie('a=1; Priority=High; X-Vendor; bad name=1', url).extensions
+    ).toEqual({ 'Priority': 'High', 'X-Vendor': true });
+    expect(parseSetCookie('a=1; Path=/', url).extensions).toBe(undefined);
+  });
+
+  it('ignores unparseable Expires attributes', () => {
+    expect(parseSetCookie('id=1; Expires=tomorrow', url).expires).toBe(
+      undefined
+    );
+  });
+
+  it('parses the cookie-date formats used in the wild', () => {
+    const expected = '1994-11-06T08:49:37.000Z';
+    expect(
+      parseSetCookie('a=1; Expires=Sun, 06 Nov 1994 08:49:37 GMT', url).expires
+    ).toBe(expected);
+    expect(
+      parseSetCookie('a=1; Expires=Sunday, 06-Nov-94 08:49:37 GMT', url).expires
+    ).toBe(expected);
+    expect(
+      parseSetCookie('a=1; Expires=Sun Nov  6 08:49:37 1994', url).expires
+    ).toBe(expected);
+  });
+
+  it('rejects invalid calendar dates', () => {
+    expect(
+      parseSetCookie('a=1; Expires=31 Feb 2030 00:00:00', url).expires
+    ).toBe(undefined);
+  });
+
+  it('reports headers without a name=value pair as PARSE_ERROR', () => {
+    expect(() => parseSetCookie('novalue; Path=/', url)).toThrow(
+      /^PARSE_ERROR:/
+    );
+  });
+
+  it('reports empty cookie names as PARSE_ERROR', () => {
+    expect(() => parseSetCookie('=value', url)).toThrow(/^PARSE_ERROR:/);
+  });
+
+  it('reports invalid request URLs as INVALID_URL', () => {
+    expect(() => parseSetCookie('a=1', 'example.com')).toThrow(/^INVALID_URL:/);
+  });
+});
+
+describe('splitSetCookieHeader', () => {
+  it('splits newline-separated headers', () => {
+    expect(splitSetCookieHeader('a=1; Path=/\nb=2\r\n')).toEqual([
+      'a=1; Path=/',
+      'b=2',
+    ]);
+  });
+
+  it('splits comma-folded headers without breaking Expires dates', () => {
+    expect(
+      splitSetCookieHeader(
+        'a=1; Expires=Wed, 21 Oct 2030 07:28:00 GMT, b=2; Secure'
+      )
+    ).toEqual(['a=1; Expires=Wed, 21 Oct 2030 07:28:00 GMT', 'b=2; Secure']);
+  });
+});
@@ -0,0 +1,174 @@
+import NitroCookies, {
+  CookieErrorCode,
+  KeyValuePersistenceAdapter,
+  MemoryPersistenceAdapter,
+} from '../index';
+import type { CookiePersistence } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+const future = '2099-01-01T00:00:00.000Z';
+
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    },
+  };
+}
+
+describe('KeyValuePersistenceAdapter', () => {
+  it('stores snapshots as JSON under one key', async () => {
+    const storage = createStorage();
+    const adapter = new KeyValuePersistenceAdapter(storage, 'cookies');
+    expect(await adapter.load()).toBeUndefined();
+
+    const snapshot = {
+      version: 1 as const,
+      exportedAt: future,
+      store: 'http' as const,
+      cookies: [{ name: 'a', value: '1', domain: 'example.com' }],
+    };
+    await adapter.save(snapshot);
+    expect(JSON.parse(storage.items.get('cookies')!)).toEqual(snapshot);
+    expect(await adapter.load()).toEqual(snapshot);
+
+    await adapter.clear();
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('works with synchronous storage without removeItem', async () => {
+    const items: Record<string, string> = {};
+    const adapter = new KeyValuePersistenceAdapter({
+      getItem: (key) => items[key],
+      setItem: (key, value) => {
+        items[key] = value;
+      },
+    });
+    await adapter.save({
+      version: 1,
+      exportedAt: future,
+      store: 'http',
+      cookies: [],
+    });
+    await adapter.clear();
+    expect(await adapter.load()).toBeUndefined();
+  });
+
+  it('rejects malformed stored values', async () => {
+    const adapter = new KeyValuePersistenceAdapter({
+      getItem: () => '{"version":9}',
+      setItem: () => {},
+    });
+    await expect(adapter.load()).rejects.toMatchObject({
+      code: CookieErrorCode.PARSE_ERROR,
+    });
+  });
+});
+
+describe('persistence', () => {
+  let persistence: CookiePersistence | undefined;
+
+  beforeEach(() => nitroCookiesMock.reset());
+  afterEach(() => persistence?.stop());
+
+  it('saves chosen domains after mutations', async () => {
+    const adapter = new MemoryPersistenceAdapter();
+    persistence = await NitroCookies.enablePersistence({
+      adapter,
+      domains: ['example.com'],
+    });
+    expect(persistence.restored).toEqual({
+      imported: 0,
+      skipped: 0,
+      failures: [],
+    });
+
+    NitroCookies.setSync(url, {
+      name: 'session',
+      value: 'abc',
+      expires: future,
+    });
+    NitroCookies.setSync('https://other.com', { name: 'lang', value: 'en' });
+    await persistence.save();
+
+    const snapshot = await adapter.load();
+    expect(snapshot?.cookies).toEqual([
+      expect.objectContaining({
+        name: 'session',
+        value: 'abc',
+        expires: future,
+      }),
+    ]);
+
+    await NitroCookies.clearByName(url, 'session');
+    await persistence.save();
+    expect((await adapter.load())?.cookies).toEqual([]);
+  });
+
+  it('restores the saved snapshot at startup', async () => {
+    const adapter = new MemoryPersistenceAdapter();
+    persistence = await NitroCookies.enablePersistence({
+      adapter,
+      domains: ['example.com'],
+    });
+    NitroCookies.setSync(url, {
+      name: 'session',
+      value: 'abc',
+      expires: future,
+    });
+    await persistence.save();
+    persistence.stop();
+
+    // Next app session
+    nitroCookiesMock.reset();
+    persistence = await NitroCookies.enablePersistence({
+      adapter,
+      domains: ['example.com'],
+    });
+    expect(persistence.restored.imported).toBe(1);
+    expect(NitroCookies.getSync(url).session?.value).toBe('abc');
+  });
+
+  it('stops saving after stop()', async () => {
+    const adapter = new MemoryPersistenceAdapter();
+    const save = jest.spyOn(adapter, 'save');
+    persistence = await NitroCookies.enablePersistence({
+      adapter,
+      domains: ['example.com'],
+    });
+    persistence.stop();
+
+    NitroCookies.setSync(url, { name: 'session', value: 'abc' });
+    await Promise.resolve();
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('reports failed saves', async () => {
+    const onError = jest.fn();
+    const adapter = new MemoryPersistenceAdapter();
+    jest.spyOn(adapter, 'save').mockRejectedValue(new Error('disk full'));
+    persistence = await NitroCookies.enablePersistence({
+      adapter,
+      domains: ['example.com'],
+      onError,
+    });
+
+    NitroCookies.setSync(url, { name: 'session', value: 'abc' });
+    await expect(persistence.save()).rejects.toThrow('disk full');
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('disk full') })
+    );
+  });
+});
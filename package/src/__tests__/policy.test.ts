@@ -0,0 +1,151 @@
+import NitroCookies, { CookieErrorCode, createCookieFetch } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const violation = expect.objectContaining({
+  code: CookieErrorCode.POLICY_VIOLATION,
+});
+
+describe('domain policy', () => {
+  beforeEach(() => {
+    nitroCookiesMock.reset();
+    NitroCookies.configure({
+      policy: {
+        allowDomains: ['.Example.com'],
+        denyDomains: ['ads.example.com'],
+      },
+    });
+  });
+  afterEach(() => NitroCookies.configure({ policy: {} }));
+
+  it('allows cookies for allowed domains and their subdomains', async () => {
+    NitroCookies.setSync('https://example.com', { name: 'a', value: '1' });
+    await NitroCookies.set('https://api.example.com', {
+      name: 'b',
+      value: '2',
+      domain: '.example.com',
+    });
+    expect(Object.keys(NitroCookies.getSync('https://example.com'))).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('rejects cookies outside allowDomains before they are stored', async () => {
+    expect(() =>
+      NitroCookies.setSync('https://tracker.com', { name: 'id', value: '1' })
+    ).toThrow(violation);
+    await expect(
+      NitroCookies.set('https://tracker.com', { name: 'id', value: '1' }, true)
+    ).rejects.toMatchObject({
+      code: CookieErrorCode.POLICY_VIOLATION,
+      url: 'https://tracker.com',
+      cookieName: 'id',
+    });
+    expect(NitroCookies.getSync('https://tracker.com')).toEqual({});
+  });
+
+  it('rejects denied domains even when allowed', () => {
+    expect(() =>
+      NitroCookies.setSync('https://ads.example.com', {
+        name: 'id',
+        value: '1',
+      })
+    ).toThrow('is blocked by denyDomains');
+    expect(() =>
+      NitroCookies.setSync('https://example.com', {
+        name: 'id',
+        value: '1',
+        domain: 'x.ads.example.com',
+      })
+    ).toThrow(violation);
+  });
+
+  it('stores nothing from a response with a rejected cookie', async () => {
+    expect(() =>
+      NitroCookies.setFromResponseSync(
+        'https://ads.example.com',
+        'a=1\nb=2; Domain=example.com'
+      )
+    ).toThrow(violation);
+    await expect(
+      NitroCookies.setFromResponse('https://tracker.com', 'a=1')
+    ).rejects.toMatchObject({ code: CookieErrorCode.POLICY_VIOLATION });
+    expect(NitroCookies.getSync('https://example.com')).toEqual({});
+  });
+
+  it('lets responses store third-party cookies when configured', () => {
+    NitroCookies.configure({
+      policy: {
+        allowDomains: ['example.com'],
+        denyDomains: ['ads.example.com'],
+        allowThirdPartyFromResponse: true,
+      },
+    });
+
+    NitroCookies.setFromResponseSync('https://login.idp.com', 'sso=1');
+    expect(NitroCookies.getSync('https://login.idp.com').sso?.value).toBe('1');
+    expect(() =>
+      NitroCookies.setSync('https://login.idp.com', { name: 'x', value: '1' })
+    ).toThrow(violation);
+    expect(() =>
+      NitroCookies.setFromResponseSync('https://ads.example.com', 'id=1')
+    ).toThrow(violation);
+  });
+
+  it('reports rejected cookies in batches and imports', async () => {
+    const results = NitroCookies.setManySync('https://example.com', [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2', domain: 'ads.example.com' },
+    ]);
+    expect(results).toEqual([
+      { name: 'a', success: true },
+      { name: 'b', success: false, error: violation },
+    ]);
+
+    const imported = await NitroCookies.importNetscape(
+      'tracker.com\tFALSE\t/\tFALSE\t0\tid\t1\n'
+    );
+    expect(imported.failures).toEqual([
+      expect.objectContaining({ index: 1, error: violation }),
+    ]);
+  });
+
+  it('ignores rejected response cookies in cookie-aware fetch', async () => {
+    const headers = new Headers({ 'Set-Cookie': 'id=1' });
+    const fetchImpl = jest.fn(
+      async () =>
+        ({ url: 'https://tracker.com/pixel', headers }) as unknown as Response
+    );
+    const cookieFetch = createCookieFetch({ fetch: fetchImpl });
+
+    await expect(
+      cookieFetch('https://tracker.com/pixel')
+    ).resolves.toBeDefined();
+    expect(NitroCookies.getSync('https://tracker.com')).toEqual({});
+  });
+
+  it('leaves rejected cookies out of getFromResponse', async () => {
+    const url = 'https://api.example.com';
+    nitroCookiesMock.setResponseHeaders(url, [
+      'a=1, b=2; Domain=ads.example.com, c=3; Domain=other.com',
+      'd=4; Domain=example.com',
+    ]);
+
+    const cookies = await NitroCookies.getFromResponse(url);
+    expect(Object.keys(cookies)).toEqual(['a', 'd']);
+    expect(cookies.a?.hostOnly).toBe(true);
+    expect(cookies.d?.hostOnly).toBeUndefined();
+  });
+
+  it('allows every domain without a policy', () => {
+    NitroCookies.configure({ policy: {} });
+    expect(
+      NitroCookies.setSync('https://tracker.com', { name: 'id', value: '1' })
+    ).toBe(true);
+  });
+});
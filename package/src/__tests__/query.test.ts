@@ -0,0 +1,146 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import { nitroCookiesMock } from '../jest';
+import { matchesQuery } from '../query';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const now = Date.parse('2030-01-01T00:00:00.000Z');
+const inOneHour = new Date(now + 60 * 60 * 1000).toISOString();
+const inOneDay = new Date(now + 24 * 60 * 60 * 1000).toISOString();
+
+describe('matchesQuery', () => {
+  const cookie = {
+    name: 'auth_token',
+    value: 'abc',
+    domain: 'api.example.com',
+    path: '/v1',
+    secure: true,
+    expires: inOneHour,
+  };
+
+  it('matches every cookie with an empty query', () => {
+    expect(matchesQuery(cookie, {}, now)).toBe(true);
+  });
+
+  it('matches domains with and without subdomains', () => {
+    expect(matchesQuery(cookie, { domain: '.Example.com' }, now)).toBe(true);
+    expect(
+      matchesQuery(
+        cookie,
+        { domain: 'example.com', includeSubdomains: false },
+        now
+      )
+    ).toBe(false);
+    expect(
+      matchesQuery(
+        cookie,
+        { domain: 'api.example.com', includeSubdomains: false },
+        now
+      )
+    ).toBe(true);
+    expect(matchesQuery(cookie, { domain: 'ample.com' }, now)).toBe(false);
+  });
+
+  it('matches names as strings or patterns', () => {
+    expect(matchesQuery(cookie, { name: 'auth_token' }, now)).toBe(true);
+    expect(matchesQuery(cookie, { name: 'auth' }, now)).toBe(false);
+
+    const pattern = /^auth_/g;
+    expect(matchesQuery(cookie, { name: pattern }, now)).toBe(true);
+    expect(matchesQuery(cookie, { name: pattern }, now)).toBe(true);
+  });
+
+  it('matches request paths and flags', () => {
+    expect(matchesQuery(cookie, { path: '/v1/users' }, now)).toBe(true);
+    expect(matchesQuery(cookie, { path: '/v2' }, now)).toBe(false);
+    expect(matchesQuery(cookie, { secure: true, httpOnly: false }, now)).toBe(
+      true
+    );
+    expect(matchesQuery(cookie, { httpOnly: true }, now)).toBe(false);
+  });
+
+  it('matches expiry ranges and session cookies', () => {
+    const session = { name: 'sid', value: '1' };
+
+    expect(
+      matchesQuery(cookie, { expiresBefore: new Date(inOneDay) }, now)
+    ).toBe(true);
+    expect(
+      matchesQuery(cookie, { expiresAfter: new Date(inOneDay) }, now)
+    ).toBe(false);
+    expect(matchesQuery(cookie, { session: false }, now)).toBe(true);
+    expect(matchesQuery(session, { session: true }, now)).toBe(true);
+    expect(
+      matchesQuery(session, { expiresBefore: new Date(inOneDay) }, now)
+    ).toBe(false);
+    expect(
+      matchesQuery({ ...session, maxAge: 60 }, { session: true }, now)
+    ).toBe(false);
+  });
+});
+
+describe('NitroCookies.find', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('searches every cookie on iOS', async () => {
+    await NitroCookies.set('https://example.com', {
+      name: 'auth_session',
+      value: '1',
+      maxAge: 60,
+    });
+    await NitroCookies.set('https://api.example.com', {
+      name: 'auth_api',
+      value: '2',
+    });
+    await NitroCookies.set('https://other.com', {
+      name: 'auth_other',
+      value: '3',
+      maxAge: 60,
+    });
+
+    const found = await NitroCookies.find({
+      domain: 'example.com',
+      name: /^auth_/,
+      expiresBefore: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    expect(found.map((cookie) => cookie.name)).toEqual(['auth_session']);
+
+    const all = await NitroCookies.find({ name: /^auth_/ });
+    expect(all).toHaveLength(3);
+  });
+
+  it('searches the WebKit store', async () => {
+    await NitroCookies.set(
+      'https://example.com',
+      { name: 'web', value: '1' },
+      true
+    );
+
+    expect(await NitroCookies.find({ store: 'webkit' })).toHaveLength(1);
+    expect(await NitroCookies.find()).toEqual([]);
+  });
+
+  it('falls back to a URL-scoped read on Android', async () => {
+    nitroCookiesMock.setPlatform('android');
+    NitroCookies.setSync('https://example.com/api', {
+      name: 'token',
+      value: '1',
+      path: '/api',
+    });
+
+    const found = await NitroCookies.find({
+      domain: 'example.com',
+      path: '/api',
+      name: 'token',
+    });
+    expect(found).toEqual([
+      { name: 'token', value: '1', path: '/', domain: 'example.com' },
+    ]);
+    await expect(NitroCookies.find({ name: 'token' })).rejects.toMatchObject({
+      code: CookieErrorCode.PLATFORM_UNSUPPORTED,
+    });
+  });
+});
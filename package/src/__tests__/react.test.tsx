@@ -0,0 +1,146 @@
+import { Component } from 'react';
+import type { ReactNode } from 'react';
+import { Text } from 'react-native';
+import {
+  act,
+  render,
+  renderHook,
+  screen,
+  waitFor,
+} from '@testing-library/react-native';
+import NitroCookies, {
+  CookieErrorCode,
+  CookieProvider,
+  NitroCookieError,
+  useCookie,
+  useCookies,
+} from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+
+function WebKitProvider({ children }: { children: ReactNode }) {
+  return <CookieProvider useWebKit>{children}</CookieProvider>;
+}
+
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error?: Error }
+> {
+  state: { error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error ? (
+      <Text>{this.state.error.message}</Text>
+    ) : (
+      this.props.children
+    );
+  }
+}
+
+describe('React integration', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('reads cookies on the first render', () => {
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    const { result } = renderHook(() => useCookies(url));
+    expect(Object.keys(result.current)).toEqual(['a']);
+  });
+
+  it('re-renders when a matching cookie changes', async () => {
+    const { result } = renderHook(() => useCookies(url));
+    const first = result.current;
+
+    await act(async () => {
+      await NitroCookies.set('https://other.com', { name: 'x', value: '1' });
+    });
+    expect(result.current).toBe(first);
+
+    await act(async () => {
+      await NitroCookies.set(url, { name: 'a', value: '1' });
+    });
+    expect(result.current.a?.value).toBe('1');
+
+    await act(async () => {
+      await NitroCookies.clearByName(url, 'a');
+    });
+    expect(result.current).toEqual({});
+  });
+
+  it('reads and writes the WebKit store below a provider', async () => {
+    const { result } = renderHook(() => useCookie(url, 'theme'), {
+      wrapper: WebKitProvider,
+    });
+    expect(result.current[0]).toBeUndefined();
+
+    await act(async () => {
+      await result.current[1]('dark');
+    });
+    expect(result.current[0]?.value).toBe('dark');
+    expect(NitroCookies.getSync(url)).toEqual({});
+
+    await act(async () => {
+      await result.current[2]();
+    });
+    expect(result.current[0]).toBeUndefined();
+  });
+
+  it('stops listening after unmount', () => {
+    const { unmount } = renderHook(() => useCookies(url));
+    unmount();
+
+    const getSync = jest.spyOn(NitroCookies, 'getSync');
+    NitroCookies.setSync(url, { name: 'a', value: '1' });
+    expect(getSync).not.toHaveBeenCalled();
+    getSync.mockRestore();
+  });
+
+  it('throws read errors to the nearest error boundary', async () => {
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const get = jest
+      .spyOn(NitroCookies, 'get')
+      .mockRejectedValue(
+        new NitroCookieError(
+          CookieErrorCode.WEBKIT_UNAVAILABLE,
+          'WebKit requires iOS 11 or higher'
+        )
+      );
+
+    function Cookies() {
+      const cookies = useCookies(url);
+      return <Text>{Object.keys(cookies).length} cookies</Text>;
+    }
+
+    try {
+      render(
+        <ErrorBoundary>
+          <WebKitProvider>
+            <Cookies />
+          </WebKitProvider>
+        </ErrorBoundary>
+      );
+      expect(screen.getByText('0 cookies')).toBeTruthy();
+      await waitFor(() =>
+        expect(
+          screen.getByText(
+            'WEBKIT_UNAVAILABLE: WebKit requires iOS 11 or higher'
+          )
+        ).toBeTruthy()
+      );
+    } finally {
+      get.mockRestore();
+      consoleError.mockRestore();
+    }
+  });
+});
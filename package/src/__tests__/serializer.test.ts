@@ -0,0 +1,66 @@
+import { parseSetCookie } from '../parser';
+import {
+  parseCookieHeader,
+  serializeCookie,
+  toCookieHeader,
+} from '../serializer';
+
+describe('serializeCookie', () => {
+  it('serializes all attributes in native order', () => {
+    expect(
+      serializeCookie({
+        name: 'session',
+        value: 'abc',
+        path: '/',
+        domain: 'example.com',
+        expires: '2030-10-21T07:28:00.000Z',
+        maxAge: 3600,
+        secure: true,
+        httpOnly: true,
+        sameSite: 'None',
+        partitioned: true,
+        extensions: { Priority: 'High', Flag: true },
+      })
+    ).toBe(
+      'session=abc; Path=/; Domain=example.com; Expires=Mon, 21 Oct 2030 07:28:00 GMT; Max-Age=3600; Secure; HttpOnly; SameSite=None; Partitioned; Priority=High; Flag'
+    );
+  });
+
+  it('omits invalid expires values', () => {
+    expect(serializeCookie({ name: 'a', value: '1', expires: 'soon' })).toBe(
+      'a=1'
+    );
+  });
+
+  it('round-trips through parseSetCookie', () => {
+    const url = 'https://example.com/';
+    const cookie = parseSetCookie(
+      'a=1; Path=/app; Domain=example.com; Secure; SameSite=Lax; Priority=High',
+      url
+    );
+    expect(parseSetCookie(serializeCookie(cookie), url)).toEqual(cookie);
+  });
+
+  it('rejects invalid cookies', () => {
+    expect(() =>
+      serializeCookie({ name: 'a', value: '1', sameSite: 'None' })
+    ).toThrow(/^INVALID_COOKIE:/);
+  });
+});
+
+describe('Cookie request header', () => {
+  it('builds a header from arrays and dictionaries', () => {
+    const a = { name: 'a', value: '1', path: '/' };
+    const b = { name: 'b', value: '2', secure: true };
+    expect(toCookieHeader([a, b])).toBe('a=1; b=2');
+    expect(toCookieHeader({ a, b })).toBe('a=1; b=2');
+    expect(toCookieHeader([])).toBe('');
+  });
+
+  it('parses a header, keeping the first occurrence of each name', () => {
+    expect(parseCookieHeader(' a=1; b = x=y ; junk; =empty; a=2')).toEqual({
+      a: { name: 'a', value: '1' },
+      b: { name: 'b', value: 'x=y' },
+    });
+  });
+});
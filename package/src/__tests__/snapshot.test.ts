@@ -0,0 +1,178 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import type { CookieSnapshot } from '../index';
+import { nitroCookiesMock } from '../jest';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+const future = '2099-01-01T00:00:00.000Z';
+
+function snapshotOf(cookies: unknown[]): CookieSnapshot {
+  return {
+    version: 1,
+    exportedAt: '2030-01-01T00:00:00.000Z',
+    store: 'http',
+    cookies: cookies as CookieSnapshot['cookies'],
+  };
+}
+
+describe('snapshots', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('exports a versioned snapshot of every cookie', async () => {
+    NitroCookies.setSync(url, { name: 'session', value: '1', maxAge: 60 });
+    NitroCookies.setSync('https://other.com', { name: 'lang', value: 'en' });
+
+    const snapshot = await NitroCookies.exportSnapshot();
+    expect(snapshot).toMatchObject({ version: 1, store: 'http' });
+    expect(Date.parse(snapshot.exportedAt)).not.toBeNaN();
+    expect(snapshot.cookies.map((cookie) => cookie.name)).toEqual([
+      'session',
+      'lang',
+    ]);
+    expect(snapshot.cookies[0]?.expires).toBeDefined();
+    expect(snapshot.cookies[0]?.maxAge).toBeUndefined();
+  });
+
+  it('filters exported cookies by domain and store', async () => {
+    NitroCookies.setSync('https://api.example.com', { name: 'a', value: '1' });
+    NitroCookies.setSync('https://other.com', { name: 'b', value: '2' });
+    await NitroCookies.set(url, { name: 'web', value: '3' }, true);
+
+    const snapshot = await NitroCookies.exportSnapshot({
+      domains: ['example.com'],
+    });
+    expect(snapshot.cookies.map((cookie) => cookie.name)).toEqual(['a']);
+
+    const webKit = await NitroCookies.exportSnapshot({ store: 'webkit' });
+    expect(webKit.store).toBe('webkit');
+    expect(webKit.cookies.map((cookie) => cookie.name)).toEqual(['web']);
+  });
+
+  it('exports the given domains on Android', async () => {
+    nitroCookiesMock.setPlatform('android');
+    NitroCookies.setSync(url, { name: 'session', value: '1' });
+
+    const snapshot = await NitroCookies.exportSnapshot({
+      domains: ['example.com'],
+    });
+    expect(snapshot.cookies.map((cookie) => cookie.name)).toEqual(['session']);
+    await expect(NitroCookies.exportSnapshot()).rejects.toMatchObject({
+      code: CookieErrorCode.PLATFORM_UNSUPPORTED,
+    });
+  });
+
+  it('round-trips through JSON', async () => {
+    NitroCookies.setSync(url, {
+      name: 'session',
+      value: '1',
+      path: '/app',
+      secure: true,
+      expires: future,
+    });
+    const json = JSON.stringify(await NitroCookies.exportSnapshot());
+
+    nitroCookiesMock.reset();
+    expect(await NitroCookies.importSnapshot(json)).toEqual({
+      imported: 1,
+      skipped: 0,
+      failures: [],
+    });
+    expect(NitroCookies.getSync(url).session).toEqual({
+      name: 'session',
+      value: '1',
+      path: '/app',
+      domain: 'example.com',
+      secure: true,
+      expires: future,
+    });
+  });
+
+  it('merges or replaces existing cookies', async () => {
+    const snapshot = snapshotOf([
+      { name: 'session', value: 'new', domain: 'example.com' },
+    ]);
+    NitroCookies.setSync(url, { name: 'session', value: 'old' });
+    NitroCookies.setSync(url, { name: 'theme', value: 'dark' });
+
+    await NitroCookies.importSnapshot(snapshot);
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual([
+      'theme',
+      'session',
+    ]);
+
+    await NitroCookies.importSnapshot(snapshot, { mode: 'replace' });
+    expect(NitroCookies.getSync(url)).toEqual({
+      session: {
+        name: 'session',
+        value: 'new',
+        path: '/',
+        domain: 'example.com',
+      },
+    });
+  });
+
+  it('skips expired cookies unless asked not to', async () => {
+    const snapshot = snapshotOf([
+      {
+        name: 'old',
+        value: '1',
+        domain: 'example.com',
+        expires: '2000-01-01T00:00:00.000Z',
+      },
+    ]);
+    NitroCookies.setSync(url, { name: 'old', value: 'current' });
+
+    expect(await NitroCookies.importSnapshot(snapshot)).toEqual({
+      imported: 0,
+      skipped: 1,
+      failures: [],
+    });
+    expect(Object.keys(NitroCookies.getSync(url))).toEqual(['old']);
+
+    await NitroCookies.importSnapshot(snapshot, { skipExpired: false });
+    expect(NitroCookies.getSync(url)).toEqual({});
+  });
+
+  it('reports per-cookie failures', async () => {
+    const result = await NitroCookies.importSnapshot(
+      snapshotOf([
+        { name: 'ok', value: '1', domain: 'example.com' },
+        { name: 'nodomain', value: '1' },
+        { name: 'bad', value: '1', domain: 'example.com', secure: 'yes' },
+        'garbage',
+        {
+          name: 'lax',
+          value: '1',
+          domain: 'example.com',
+          sameSite: 'None',
+        },
+      ])
+    );
+
+    expect(result.imported).toBe(1);
+    expect(
+      result.failures.map(({ index, name, error }) => [index, name, error.code])
+    ).toEqual([
+      [1, 'nodomain', CookieErrorCode.INVALID_COOKIE],
+      [2, 'bad', CookieErrorCode.INVALID_COOKIE],
+      [3, undefined, CookieErrorCode.INVALID_COOKIE],
+      [4, 'lax', CookieErrorCode.INVALID_COOKIE],
+    ]);
+  });
+
+  it('rejects malformed documents', async () => {
+    await expect(NitroCookies.importSnapshot('{')).rejects.toMatchObject({
+      code: CookieErrorCode.PARSE_ERROR,
+    });
+    await expect(
+      NitroCookies.importSnapshot({ ...snapshotOf([]), version: 2 } as never)
+    ).rejects.toThrow('unsupported version');
+    await expect(
+      NitroCookies.importSnapshot({ ...snapshotOf([]), cookies: {} } as never)
+    ).rejects.toMatchObject({ code: CookieErrorCode.PARSE_ERROR });
+  });
+});
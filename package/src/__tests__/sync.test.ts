@@ -0,0 +1,132 @@
+import NitroCookies, { CookieErrorCode } from '../index';
+import { nitroCookiesMock } from '../jest';
+import { compareStores } from '../sync';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+const url = 'https://example.com';
+
+describe('compareStores', () => {
+  it('matches cookies by name, domain and path', () => {
+    const session = { name: 'session', value: 'abc', domain: 'example.com' };
+    expect(
+      compareStores(
+        [session, { name: 'theme', value: 'dark', domain: 'example.com' }],
+        [
+          { ...session, path: '/' },
+          { name: 'theme', value: 'light', domain: 'example.com' },
+          { name: 'theme', value: 'dark', domain: 'other.com' },
+        ]
+      )
+    ).toEqual({
+      inSync: false,
+      missingFromHttp: [{ name: 'theme', value: 'dark', domain: 'other.com' }],
+      missingFromWebKit: [],
+      valueMismatches: [
+        {
+          http: { name: 'theme', value: 'dark', domain: 'example.com' },
+          webkit: { name: 'theme', value: 'light', domain: 'example.com' },
+        },
+      ],
+    });
+  });
+});
+
+describe('store synchronization', () => {
+  beforeEach(() => nitroCookiesMock.reset());
+
+  it('copies missing and changed cookies one way', async () => {
+    NitroCookies.setSync(url, { name: 'session', value: 'new' });
+    NitroCookies.setSync(url, { name: 'theme', value: 'dark' });
+    await NitroCookies.set(url, { name: 'session', value: 'old' }, true);
+    await NitroCookies.set(url, { name: 'lang', value: 'en' }, true);
+
+    expect(await NitroCookies.syncStores({ from: 'http' })).toEqual({
+      copied: 2,
+      failures: [],
+    });
+    const webkit = await NitroCookies.get(url, true);
+    expect(webkit.session?.value).toBe('new');
+    expect(webkit.theme?.value).toBe('dark');
+    expect(NitroCookies.getSync(url).lang).toBeUndefined();
+
+    expect(await NitroCookies.verifyStores()).toMatchObject({
+      inSync: false,
+      missingFromHttp: [expect.objectContaining({ name: 'lang' })],
+    });
+  });
+
+  it('merges both stores', async () => {
+    NitroCookies.setSync(url, { name: 'session', value: 'new' });
+    await NitroCookies.set(url, { name: 'session', value: 'old' }, true);
+    await NitroCookies.set(url, { name: 'lang', value: 'en' }, true);
+
+    const result = await NitroCookies.syncStores({
+      from: 'http',
+      to: 'webkit',
+      direction: 'merge',
+    });
+    expect(result.copied).toBe(2);
+    expect(NitroCookies.getSync(url).lang?.value).toBe('en');
+    expect((await NitroCookies.get(url, true)).session?.value).toBe('new');
+    expect((await NitroCookies.verifyStores()).inSync).toBe(true);
+  });
+
+  it('only copies the selected cookies', async () => {
+    NitroCookies.setSync(url, { name: 'session', value: 'abc' });
+    NitroCookies.setSync(url, { name: 'theme', value: 'dark' });
+    NitroCookies.setSync('https://other.com', { name: 'session', value: 'x' });
+
+    await NitroCookies.syncStores({
+      from: 'http',
+      domains: ['example.com'],
+      names: ['session'],
+    });
+    expect(await NitroCookies.getAll(true)).toEqual({
+      session: expect.objectContaining({ domain: 'example.com' }),
+    });
+    expect(
+      await NitroCookies.verifyStores({ names: ['session'] })
+    ).toMatchObject({
+      missingFromWebKit: [expect.objectContaining({ domain: 'other.com' })],
+    });
+  });
+
+  it('reports write failures', async () => {
+    await NitroCookies.set(url, { name: 'session', value: 'abc' }, true);
+    jest
+      .spyOn(nitroCookiesMock, 'setMany')
+      .mockRejectedValueOnce(new Error('STORAGE_ERROR: disk full'));
+
+    const result = await NitroCookies.syncStores({ from: 'webkit' });
+    expect(result.copied).toBe(0);
+    expect(result.failures).toEqual([
+      expect.objectContaining({
+        cookie: expect.objectContaining({ name: 'session' }),
+        store: 'http',
+        error: expect.objectContaining({ code: 'STORAGE_ERROR' }),
+      }),
+    ]);
+  });
+
+  it('rejects syncing a store with itself', async () => {
+    await expect(
+      NitroCookies.syncStores({ from: 'http', to: 'http' })
+    ).rejects.toMatchObject({ code: CookieErrorCode.INVALID_ARGUMENT });
+  });
+
+  it('has nothing to copy on Android', async () => {
+    nitroCookiesMock.setPlatform('android');
+    NitroCookies.setSync(url, { name: 'session', value: 'abc' });
+
+    expect(
+      await NitroCookies.syncStores({ from: 'http', domains: ['example.com'] })
+    ).toEqual({ copied: 0, failures: [] });
+    expect(
+      (await NitroCookies.verifyStores({ domains: ['example.com'] })).inSync
+    ).toBe(true);
+  });
+});
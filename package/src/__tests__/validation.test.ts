@@ -0,0 +1,230 @@
+import NitroCookies from '../index';
+import { nitroCookiesMock } from '../jest';
+import {
+  normalizeNameAndValue,
+  setValidationMode,
+  validateCookie,
+} from '../validation';
+
+jest.mock(
+  'react-native-nitro-modules',
+  () => require('../jest').nitroModulesMock
+);
+
+describe('validateCookie', () => {
+  it('accepts SameSite=None on secure cookies', () => {
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', sameSite: 'None', secure: true })
+    ).not.toThrow();
+  });
+
+  it('rejects SameSite=None without secure', () => {
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', sameSite: 'None' })
+    ).toThrow(/^INVALID_COOKIE:/);
+  });
+
+  it('accepts Strict and Lax without secure', () => {
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', sameSite: 'Lax' })
+    ).not.toThrow();
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', sameSite: 'Strict' })
+    ).not.toThrow();
+  });
+
+  it('rejects non-integer maxAge', () => {
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', maxAge: 1.5 })
+    ).toThrow(/^INVALID_COOKIE:/);
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', maxAge: Infinity })
+    ).toThrow(/^INVALID_COOKIE:/);
+  });
+
+  it('rejects partitioned cookies without secure', () => {
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', partitioned: true })
+    ).toThrow(/^INVALID_COOKIE:/);
+    expect(() =>
+      validateCookie({ name: 'a', value: '1', partitioned: true, secure: true })
+    ).not.toThrow();
+  });
+
+  it('rejects semicolons and control characters in names and values', () => {
+    for (const cookie of [
+      { name: 'a', value: '1; Domain=evil.com' },
+      { name: 'a', value: '1\r\nSet-Cookie: b=2' },
+      { name: 'a;b', value: '1' },
+      { name: 'a\u0000', value: '1' },
+    ]) {
+      expect(() => validateCookie(cookie)).toThrow(/^INVALID_COOKIE:/);
+    }
+  });
+
+  it('validates extension attributes', () => {
+    const cookie = { name: 'a', value: '1' };
+    expect(() =>
+      validateCookie({
+        ...cookie,
+        extensions: { Priority: 'High', Flag: true },
+      })
+    ).not.toThrow();
+    expect(() =>
+      validateCookie({
+        ...cookie,
+        extensions: { Priority: 'High; Domain=evil' },
+      })
+    ).toThrow(/^INVALID_COOKIE:/);
+    expect(() =>
+      validateCookie({ ...cookie, extensions: { 'bad name': true } })
+    ).toThrow(/^INVALID_COOKIE:/);
+    expect(() =>
+      validateCookie({ ...cookie, extensions: { domain: 'evil.com' } })
+    ).toThrow(/^INVALID_COOKIE:/);
+  });
+});
+
+describe('normalizeNameAndValue', () => {
+  beforeEach(() => setValidationMode('strict'));
+  afterEach(() => setValidationMode('off'));
+
+  it('passes every name and value through when validation is off', () => {
+    setValidationMode('off');
+    const cookie = { name: 'user name', value: 'hello 世界 🍪' };
+    expect(normalizeNameAndValue(cookie)).toBe(cookie);
+  });
+
+  it('accepts names and values in the RFC 6265 grammar', () => {
+    const cookie = {
+      name: 'session_id',
+      value: 'a!#$%&()*+-./:<=>?@[]^_`{|}~',
+    };
+    expect(normalizeNameAndValue(cookie)).toBe(cookie);
+    expect(normalizeNameAndValue({ name: 'a', value: '"quoted"' }).value).toBe(
+      '"quoted"'
+    );
+    expect(normalizeNameAndValue({ name: 'a', value: '' }).value).toBe('');
+  });
+
+  it('rejects other characters in strict mode', () => {
+    for (const value of [
+      'a;b',
+      'a\r\nSet-Cookie: x=1',
+      'a b',
+      'a,b',
+      '"a',
+      'ü',
+    ]) {
+      expect(() => normalizeNameAndValue({ name: 'a', value })).toThrow(
+        /^INVALID_COOKIE:/
+      );
+    }
+    for (const name of ['', 'a b', 'a=b', 'a;b', 'é']) {
+      expect(() => normalizeNameAndValue({ name, value: '1' })).toThrow(
+        /^INVALID_COOKIE:/
+      );
+    }
+  });
+
+  it('percent-encodes other characters in lenient mode', () => {
+    setValidationMode('lenient');
+    expect(
+      normalizeNameAndValue({
+        name: 'user name',
+        value: 'a; Domain=evil.com\n"ü"',
+        path: '/',
+      })
+    ).toEqual({
+      name: 'user%20name',
+      value: 'a%3B%20Domain=evil.com%0A%22%C3%BC%22',
+      path: '/',
+    });
+    expect(normalizeNameAndValue({ name: '(a)', value: '\uD800' })).toEqual({
+      name: '%28a%29',
+      value: '%EF%BF%BD',
+    });
+    expect(() => normalizeNameAndValue({ name: '', value: '1' })).toThrow(
+      /^INVALID_COOKIE:/
+    );
+  });
+});
+
+describe('name and value validation before writes', () => {
+  const url = 'https://example.com';
+
+  beforeEach(() => {
+    nitroCookiesMock.reset();
+    NitroCookies.configure({ validation: 'strict' });
+  });
+  afterEach(() => NitroCookies.configure({ validation: 'off' }));
+
+  it('stores names and values unchanged by default', () => {
+    NitroCookies.configure({ validation: 'off' });
+    NitroCookies.setSync(url, { name: 'spaces', value: 'value with spaces' });
+    NitroCookies.setSync(url, { name: 'unicode', value: 'hello 世界 🍪' });
+    expect(NitroCookies.getSync(url)).toMatchObject({
+      spaces: { value: 'value with spaces' },
+      unicode: { value: 'hello 世界 🍪' },
+    });
+  });
+
+  it('rejects injected attributes while validation is off', async () => {
+    NitroCookies.configure({ validation: 'off' });
+    for (const platform of ['ios', 'android'] as const) {
+      nitroCookiesMock.setPlatform(platform);
+      expect(() =>
+        NitroCookies.setSync(url, { name: 'a', value: 'x; Domain=evil.com' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_COOKIE' }));
+      const [result] = await NitroCookies.setMany(url, [
+        { name: 'a\nb', value: '1' },
+      ]);
+      expect(result?.error?.code).toBe('INVALID_COOKIE');
+      expect(NitroCookies.getSync(url)).toEqual({});
+    }
+  });
+
+  it('rejects injected attributes on every platform', async () => {
+    for (const platform of ['ios', 'android'] as const) {
+      nitroCookiesMock.setPlatform(platform);
+      expect(() =>
+        NitroCookies.setSync(url, { name: 'a', value: '1; Domain=evil.com' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_COOKIE' }));
+      await expect(
+        NitroCookies.set(url, { name: 'a\nb', value: '1' })
+      ).rejects.toMatchObject({ code: 'INVALID_COOKIE', cookieName: 'a\nb' });
+      expect(NitroCookies.getSync(url)).toEqual({});
+    }
+  });
+
+  it('stores encoded cookies in lenient mode', async () => {
+    NitroCookies.configure({ validation: 'lenient' });
+    const listener = jest.fn();
+    const unsubscribe = NitroCookies.addListener('change', listener);
+
+    NitroCookies.setSync(url, { name: 'theme', value: 'dark blue' });
+    const [result] = await NitroCookies.setMany(url, [
+      { name: 'lang', value: 'en,ko' },
+    ]);
+    unsubscribe();
+
+    expect(result).toEqual({ name: 'lang', success: true });
+    expect(NitroCookies.getSync(url)).toMatchObject({
+      theme: { value: 'dark%20blue' },
+      lang: { value: 'en%2Cko' },
+    });
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        cookie: expect.objectContaining({ value: 'dark%20blue' }),
+      })
+    );
+  });
+
+  it('stores cookies from responses as parsed', async () => {
+    NitroCookies.setFromResponseSync(url, 'a="b c"; Path=/');
+    expect(NitroCookies.getSync(url).a?.value).toBe('"b c"');
+    NitroCookies.configure({ validation: 'lenient' });
+    await NitroCookies.setFromResponse(url, 'b=x y', true);
+    expect((await NitroCookies.get(url, true)).b?.value).toBe('x y');
+  });
+});
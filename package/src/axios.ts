@@ -0,0 +1,232 @@
+/**
+ * Axios interceptor adapter
+ *
+ * Sends cookies from the native store with axios requests and stores
+ * Set-Cookie headers from axios responses. Axios is not a dependency of this
+ * library; the types below describe the parts of an axios instance that the
+ * adapter uses.
+ */
+
+import { isIgnoredSetCookieError } from './errors';
+import { NitroCookies } from './NitroCookies';
+import { isMatchingDomain, isSendableCookie } from './matching';
+import { splitSetCookieHeader } from './parser';
+import { toCookieHeader } from './serializer';
+import { parseRequestUrl } from './url';
+import type { RequestUrl } from './url';
+
+/**
+ * Request config fields read and written by the adapter
+ */
+export interface AxiosRequestConfigLike {
+  url?: string;
+  baseURL?: string;
+  allowAbsoluteUrls?: boolean;
+  withCredentials?: boolean;
+  headers?: { [name: string]: unknown };
+}
+
+/**
+ * Response fields read by the adapter
+ */
+export interface AxiosResponseLike {
+  config: AxiosRequestConfigLike;
+  headers: { [name: string]: unknown };
+  request?: unknown;
+}
+
+interface AxiosInterceptorManagerLike<V> {
+  use(
+    onFulfilled?: ((value: V) => V | Promise<V>) | null,
+    onRejected?: ((error: unknown) => unknown) | null
+  ): number;
+  eject(id: number): void;
+}
+
+/**
+ * The interceptor API of an axios instance
+ */
+export interface AxiosInstanceLike<
+  C extends AxiosRequestConfigLike,
+  R extends AxiosResponseLike,
+> {
+  interceptors: {
+    request: AxiosInterceptorManagerLike<C>;
+    response: AxiosInterceptorManagerLike<R>;
+  };
+}
+
+/**
+ * Options for attachNitroCookies
+ */
+export interface AttachNitroCookiesOptions {
+  /**
+   * Only handle cookies for these hosts. Each entry also matches its
+   * subdomains, like a cookie domain. All hosts are allowed if omitted.
+   */
+  allowedHosts?: string[];
+}
+
+// Same test as axios' isAbsoluteURL
+const ABSOLUTE_URL = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+/**
+ * Build the full request URL the way axios does (buildFullPath)
+ */
+function resolveAxiosUrl(config: AxiosRequestConfigLike): string {
+  const url = config.url ?? '';
+  if (
+    config.baseURL &&
+    (!ABSOLUTE_URL.test(url) || config.allowAbsoluteUrls === false)
+  ) {
+    return url
+      ? `${config.baseURL.replace(/\/?\/$/, '')}/${url.replace(/^\/+/, '')}`
+      : config.baseURL;
+  }
+  return url;
+}
+
+function findHeader(
+  headers: { [name: string]: unknown },
+  name: string
+): string | undefined {
+  return Object.keys(headers).find((key) => key.toLowerCase() === name);
+}
+
+function getResponseUrl(response: AxiosResponseLike): string {
+  // XMLHttpRequest reports the final URL after redirects
+  const { responseURL } = (response.request ?? {}) as {
+    responseURL?: unknown;
+  };
+  return typeof responseURL === 'string' && responseURL
+    ? responseURL
+    : resolveAxiosUrl(response.config);
+}
+
+function getSetCookieHeaders(headers: { [name: string]: unknown }): string[] {
+  const key = findHeader(headers, 'set-cookie');
+  const value = key === undefined ? undefined : headers[key];
+  if (Array.isArray(value)) {
+    return value.filter(
+      (header): header is string => typeof header === 'string'
+    );
+  }
+  return typeof value === 'string' ? splitSetCookieHeader(value) : [];
+}
+
+/**
+ * Register axios interceptors that send and store cookies through NitroCookies.
+ *
+ * The request interceptor resolves the full URL (including `baseURL` and
+ * relative URLs), reads cookies with `getSync` and adds them to the Cookie
+ * header after any Cookie header already set. The response interceptor stores
+ * every `set-cookie` header, string or array valued, with
+ * `setFromResponseSync`; this also runs for error responses. Cookies that are
+ * malformed or invalid for the response URL are ignored.
+ *
+ * `withCredentials` is set to false on handled requests so that the platform
+ * networking layer does not attach or store cookies a second time.
+ *
+ * @param axiosInstance - The axios instance (or the default axios export)
+ * @param options - Host allowlist
+ * @returns A function that removes the interceptors
+ *
+ * @example
+ * ```typescript
+ * import axios from 'axios';
+ *
+ * const api = axios.create({ baseURL: 'https://api.example.com' });
+ * const detach = attachNitroCookies(api, { allowedHosts: ['example.com'] });
+ *
+ * await api.post('/login', credentials); // stores the session cookie
+ * await api.get('/me'); // sends it
+ * ```
+ */
+export function attachNitroCookies<
+  C extends AxiosRequestConfigLike,
+  R extends AxiosResponseLike,
+>(
+  axiosInstance: AxiosInstanceLike<C, R>,
+  options: AttachNitroCookiesOptions = {}
+): () => void {
+  const { allowedHosts } = options;
+
+  function cookieUrlFor(url: string): RequestUrl | undefined {
+    let requestUrl: RequestUrl;
+    try {
+      requestUrl = parseRequestUrl(url);
+    } catch {
+      // Relative URLs without a baseURL and non-http(s) URLs carry no cookies
+      return undefined;
+    }
+    if (
+      allowedHosts !== undefined &&
+      !allowedHosts.some((host) => isMatchingDomain(host, requestUrl.host))
+    ) {
+      return undefined;
+    }
+    return requestUrl;
+  }
+
+  function storeCookies(response: AxiosResponseLike): void {
+    const url = getResponseUrl(response);
+    if (!cookieUrlFor(url)) {
+      return;
+    }
+    for (const header of getSetCookieHeaders(response.headers)) {
+      try {
+        NitroCookies.setFromResponseSync(url, header);
+      } catch (error) {
+        if (!isIgnoredSetCookieError(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  const requestInterceptor = axiosInstance.interceptors.request.use(
+    (config) => {
+      const url = resolveAxiosUrl(config);
+      const requestUrl = cookieUrlFor(url);
+      if (!requestUrl) {
+        return config;
+      }
+
+      config.withCredentials = false;
+      const cookieHeader = toCookieHeader(
+        Object.values(NitroCookies.getSync(url)).filter((cookie) =>
+          isSendableCookie(cookie, requestUrl)
+        )
+      );
+      if (cookieHeader) {
+        const headers = (config.headers ??= {});
+        const key = findHeader(headers, 'cookie');
+        const existing = key === undefined ? undefined : headers[key];
+        headers[key ?? 'Cookie'] =
+          typeof existing === 'string' && existing
+            ? `${existing}; ${cookieHeader}`
+            : cookieHeader;
+      }
+      return config;
+    }
+  );
+
+  const responseInterceptor = axiosInstance.interceptors.response.use(
+    (response) => {
+      storeCookies(response);
+      return response;
+    },
+    (error) => {
+      const { response } = (error ?? {}) as { response?: AxiosResponseLike };
+      if (response) {
+        storeCookies(response);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return () => {
+    axiosInstance.interceptors.request.eject(requestInterceptor);
+    axiosInstance.interceptors.response.eject(responseInterceptor);
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Change events for cookie mutations made through this library
+ *
+ * The NitroCookies methods report every successful write here so that
+ * JavaScript consumers (listeners, the React hooks) can stay in sync without
+ * polling. Changes made outside the library (WebViews, the platform
+ * networking layer) are not observed.
+ */
+
+import { isMatchingDomain } from './matching';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+/**
+ * Cookie store affected by a change
+ *
+ * - `http`: NSHTTPCookieStorage on iOS, CookieManager on Android
+ * - `webkit`: WKHTTPCookieStore (requested with `useWebKit: true`)
+ */
+export type CookieStore = 'http' | 'webkit';
+
+/**
+ * Event emitted after a cookie mutation succeeds
+ *
+ * - `set`: a cookie was stored (`set`, `setSync`, `setFromResponse(Sync)`)
+ * - `removed`: a cookie was removed by name (`clearByName(Sync)`)
+ * - `evicted`: a cookie was removed to stay under the count limits of
+ *   `configure({ limits })`; carries its exact name, domain and path
+ * - `cleared`: several cookies were removed (`clearAll`, `removeSessionCookies`)
+ */
+export type CookieChangeEvent =
+  | { type: 'set'; url: string; cookie: Cookie; store: CookieStore }
+  | {
+      type: 'removed';
+      url: string;
+      cookie: Pick<Cookie, 'name'>;
+      store: CookieStore;
+    }
+  | {
+      type: 'evicted';
+      url: string;
+      cookie: Pick<Cookie, 'name' | 'domain' | 'path'>;
+      store: CookieStore;
+    }
+  | { type: 'cleared'; store: CookieStore };
+
+/**
+ * Restricts the events delivered to a listener.
+ *
+ * `cleared` events affect every cookie and are always delivered.
+ */
+export interface CookieChangeFilter {
+  /** Only cookies for this domain or its subdomains */
+  domain?: string;
+
+  /** Only cookies with this name */
+  name?: string;
+}
+
+/**
+ * Callback registered with `NitroCookies.addListener('change', ...)`
+ */
+export type CookieChangeListener = (event: CookieChangeEvent) => void;
+
+interface Subscription {
+  listener: CookieChangeListener;
+  filter: CookieChangeFilter;
+}
+
+const subscriptions = new Set<Subscription>();
+
+function getEventDomain(
+  event: Exclude<CookieChangeEvent, { type: 'cleared' }>
+): string {
+  if (event.type !== 'removed' && event.cookie.domain) {
+    return event.cookie.domain.replace(/^\./, '');
+  }
+  return parseRequestUrl(event.url).host;
+}
+
+function matchesFilter(
+  event: CookieChangeEvent,
+  filter: CookieChangeFilter
+): boolean {
+  if (event.type === 'cleared') {
+    return true;
+  }
+  if (filter.name !== undefined && event.cookie.name !== filter.name) {
+    return false;
+  }
+  return (
+    filter.domain === undefined ||
+    isMatchingDomain(filter.domain, getEventDomain(event))
+  );
+}
+
+/**
+ * Register a listener called after every successful cookie mutation
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeToChanges(
+  listener: CookieChangeListener,
+  filter: CookieChangeFilter = {}
+): () => void {
+  const subscription = { listener, filter };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+/**
+ * Deliver a change event to the matching listeners.
+ *
+ * The mutation has already succeeded, so a listener that throws is reported
+ * with console.error instead of failing the caller.
+ */
+export function notifyChange(event: CookieChangeEvent): void {
+  for (const { listener, filter } of [...subscriptions]) {
+    if (!matchesFilter(event, filter)) {
+      continue;
+    }
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('NitroCookies change listener failed:', error);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Library-wide settings changed with NitroCookies.configure
+ *
+ * Settings are kept in memory and apply to every NitroCookies call made
+ * after `configure` returns.
+ */
+
+import { setCookieLimits } from './limits';
+import type { CookieLimits } from './limits';
+import { setCookiePolicy } from './policy';
+import type { CookiePolicy } from './policy';
+import { setValidationMode } from './validation';
+import type { CookieValidationMode } from './validation';
+
+/**
+ * Options for NitroCookies.configure. Omitted settings keep their current
+ * value.
+ */
+export interface CookieConfiguration {
+  /** Domains that cookies may be written for. Pass `{}` to remove the policy. */
+  policy?: CookiePolicy;
+
+  /**
+   * Size and count limits, e.g. `BROWSER_COOKIE_LIMITS`. Pass `{}` to
+   * remove the limits.
+   */
+  limits?: CookieLimits;
+
+  /**
+   * How cookie names and values outside the RFC 6265 grammar are handled:
+   * stored unchanged (`off`), rejected (`strict`) or percent-encoded
+   * (`lenient`). `;` and control characters are rejected in every mode.
+   * Lenient encoding is one-way: reads return the encoded text.
+   * @default 'off'
+   */
+  validation?: CookieValidationMode;
+}
+
+/**
+ * Apply the settings given in a configuration
+ */
+export function applyConfiguration(config: CookieConfiguration): void {
+  if (config.policy !== undefined) {
+    setCookiePolicy(config.policy);
+  }
+  if (config.limits !== undefined) {
+    setCookieLimits(config.limits);
+  }
+  if (config.validation !== undefined) {
+    setValidationMode(config.validation);
+  }
+}
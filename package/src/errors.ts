@@ -0,0 +1,190 @@
+/**
+ * Error handling for cookie operations
+ *
+ * Native modules report failures as plain errors whose message carries an
+ * error code prefix ("INVALID_URL: ..."). The JavaScript layer converts them
+ * into NitroCookieError instances so callers can match on `code` instead of
+ * parsing messages.
+ */
+
+import { CookieErrorCode } from './types';
+import type { CookieError } from './types';
+
+/**
+ * Context attached to a cookie error
+ */
+export interface CookieErrorDetails {
+  /** URL that caused the error (if applicable) */
+  url?: string;
+
+  /** Cookie name that caused the error (if applicable) */
+  cookieName?: string;
+
+  /** Underlying error reported by the platform */
+  cause?: unknown;
+}
+
+const ERROR_CODES = Object.values(CookieErrorCode) as string[];
+
+// Matches "CODE: message", allowing a platform prefix such as "java.lang.Exception: "
+const CODE_PREFIX = new RegExp(`\\b(${ERROR_CODES.join('|')}):\\s*`);
+
+/**
+ * Error thrown by every NitroCookies operation.
+ *
+ * The message keeps the "CODE: message" format reported by the native
+ * modules, so existing message-based checks continue to work.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   NitroCookies.setSync('example.com', cookie);
+ * } catch (error) {
+ *   if (error instanceof NitroCookieError) {
+ *     console.log(error.code); // 'INVALID_URL'
+ *   }
+ * }
+ * ```
+ */
+export class NitroCookieError extends Error implements CookieError {
+  /** Error code for programmatic handling */
+  readonly code: CookieErrorCode;
+
+  /** URL that caused the error (if applicable) */
+  readonly url?: string;
+
+  /** Cookie name that caused the error (if applicable) */
+  readonly cookieName?: string;
+
+  constructor(
+    code: CookieErrorCode,
+    message: string,
+    details: CookieErrorDetails = {}
+  ) {
+    super(
+      `${code}: ${message}`,
+      details.cause === undefined ? undefined : { cause: details.cause }
+    );
+    // Keep instanceof working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, NitroCookieError.prototype);
+    this.name = 'NitroCookieError';
+    this.code = code;
+    if (details.url !== undefined) {
+      this.url = details.url;
+    }
+    if (details.cookieName !== undefined) {
+      this.cookieName = details.cookieName;
+    }
+  }
+}
+
+/**
+ * Check whether a value is a NitroCookieError, optionally with a specific code.
+ *
+ * @param error - Any caught value
+ * @param code - If given, only match errors with this code
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await NitroCookies.getAll();
+ * } catch (error) {
+ *   if (isCookieError(error, CookieErrorCode.PLATFORM_UNSUPPORTED)) {
+ *     // fall back to per-URL reads
+ *   }
+ * }
+ * ```
+ */
+export function isCookieError(
+  error: unknown,
+  code?: CookieErrorCode
+): error is NitroCookieError {
+  return (
+    error instanceof NitroCookieError &&
+    (code === undefined || error.code === code)
+  );
+}
+
+/**
+ * Check whether an error means that a received Set-Cookie header cannot be
+ * stored. User agents ignore such cookies instead of failing the response
+ * (RFC 6265 §5.3).
+ */
+export function isIgnoredSetCookieError(error: unknown): boolean {
+  return (
+    isCookieError(error, CookieErrorCode.PARSE_ERROR) ||
+    isCookieError(error, CookieErrorCode.INVALID_COOKIE) ||
+    isCookieError(error, CookieErrorCode.DOMAIN_MISMATCH) ||
+    isCookieError(error, CookieErrorCode.POLICY_VIOLATION) ||
+    isCookieError(error, CookieErrorCode.LIMIT_EXCEEDED)
+  );
+}
+
+/**
+ * Convert any error raised by a cookie operation into a NitroCookieError.
+ *
+ * Errors that are already NitroCookieErrors gain missing context. Native
+ * errors are matched by their code prefix; errors without a recognizable code
+ * are reported as STORAGE_ERROR.
+ */
+export function toCookieError(
+  error: unknown,
+  details: Omit<CookieErrorDetails, 'cause'> = {}
+): NitroCookieError {
+  if (error instanceof NitroCookieError) {
+    if (
+      (error.url !== undefined || details.url === undefined) &&
+      (error.cookieName !== undefined || details.cookieName === undefined)
+    ) {
+      return error;
+    }
+    return new NitroCookieError(error.code, stripCode(error.message), {
+      url: error.url ?? details.url,
+      cookieName: error.cookieName ?? details.cookieName,
+      cause: error.cause,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = CODE_PREFIX.exec(message);
+  const code = match
+    ? (match[1] as CookieErrorCode)
+    : CookieErrorCode.STORAGE_ERROR;
+  return new NitroCookieError(code, stripCode(message), {
+    ...details,
+    cause: error,
+  });
+}
+
+function stripCode(message: string): string {
+  const match = CODE_PREFIX.exec(message);
+  return match ? message.slice(match.index + match[0].length) : message;
+}
+
+/**
+ * Run a synchronous cookie operation, rethrowing failures as NitroCookieError
+ */
+export function withCookieErrors<T>(
+  details: Omit<CookieErrorDetails, 'cause'>,
+  operation: () => T
+): T {
+  try {
+    return operation();
+  } catch (error) {
+    throw toCookieError(error, details);
+  }
+}
+
+/**
+ * Run an asynchronous cookie operation, rejecting with NitroCookieError on failure
+ */
+export async function withCookieErrorsAsync<T>(
+  details: Omit<CookieErrorDetails, 'cause'>,
+  operation: () => Promise<T>
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toCookieError(error, details);
+  }
+}
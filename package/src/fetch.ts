@@ -0,0 +1,225 @@
+/**
+ * Cookie-aware fetch wrapper
+ *
+ * Attaches cookies from the native store to outgoing requests and stores
+ * Set-Cookie headers from responses, using the same parser and matching rules
+ * as the rest of the library.
+ */
+
+import { isIgnoredSetCookieError } from './errors';
+import { NitroCookies } from './NitroCookies';
+import { isMatchingDomain, isSendableCookie } from './matching';
+import { splitSetCookieHeader } from './parser';
+import { toCookieHeader } from './serializer';
+import { parseRequestUrl } from './url';
+import type { RequestUrl } from './url';
+
+/**
+ * When cookies are attached to requests and stored from responses
+ *
+ * - `include`: for every http(s) request
+ * - `same-origin`: only for requests with the same scheme and host as `origin`
+ * - `omit`: never
+ */
+export type CookieFetchCredentials = 'include' | 'same-origin' | 'omit';
+
+/**
+ * Options for createCookieFetch
+ */
+export interface CookieFetchOptions {
+  /**
+   * Underlying fetch implementation
+   * @default global fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Default credentials policy. A `credentials` value passed to an individual
+   * request takes precedence, and so does the policy of a `Request` input
+   * (which is `same-origin` unless set).
+   * @default 'include'
+   */
+  credentials?: CookieFetchCredentials;
+
+  /**
+   * Origin used by the `same-origin` policy (e.g. "https://api.example.com").
+   * Without it, `same-origin` behaves like `omit`.
+   */
+  origin?: string;
+
+  /**
+   * Only handle cookies for these hosts. Each entry also matches its
+   * subdomains, like a cookie domain. All hosts are allowed if omitted.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * (iOS only) Read and write WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @default false
+   */
+  useWebKit?: boolean;
+
+  /**
+   * Use the synchronous cookie API. Ignored when `useWebKit` is true.
+   * @default false
+   */
+  sync?: boolean;
+}
+
+type FetchInput = Parameters<typeof fetch>[0];
+
+function getRequestUrl(input: FetchInput): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+  return 'href' in input ? input.href : input.url;
+}
+
+function isSameOrigin(url: RequestUrl, origin: RequestUrl): boolean {
+  return url.protocol === origin.protocol && url.host === origin.host;
+}
+
+function getSetCookieHeaders(headers: Headers): string[] {
+  // Prefer the unfolded list where the Fetch implementation provides one
+  const { getSetCookie } = headers as Headers & {
+    getSetCookie?: () => string[];
+  };
+  if (typeof getSetCookie === 'function') {
+    return getSetCookie.call(headers);
+  }
+  const value = headers.get('set-cookie');
+  return value ? splitSetCookieHeader(value) : [];
+}
+
+/**
+ * Create a fetch function that sends and stores cookies through NitroCookies.
+ *
+ * Before each request, cookies for the URL are read from the native store and
+ * sent in the Cookie header (after any Cookie header set by the caller). After
+ * each response, every Set-Cookie header is stored with `setFromResponse`;
+ * cookies that are malformed or invalid for the response URL are ignored.
+ *
+ * The underlying request is always made with `credentials: 'omit'` so that the
+ * platform networking layer does not attach or store cookies a second time.
+ * Set-Cookie headers on intermediate redirect responses are not visible to
+ * fetch and are not stored.
+ *
+ * @param options - Credentials policy, host allowlist and cookie store selection
+ * @returns A function with the same signature as fetch
+ * @throws {NitroCookieError} INVALID_URL - `origin` is malformed
+ *
+ * @example
+ * ```typescript
+ * const apiFetch = createCookieFetch({ allowedHosts: ['api.example.com'] });
+ *
+ * await apiFetch('https://api.example.com/login', { method: 'POST', body });
+ * // Later requests carry the session cookie set by the login response
+ * const profile = await apiFetch('https://api.example.com/me');
+ * ```
+ */
+export function createCookieFetch(
+  options: CookieFetchOptions = {}
+): typeof fetch {
+  const {
+    credentials: defaultCredentials = 'include',
+    allowedHosts,
+    useWebKit = false,
+  } = options;
+  const origin =
+    options.origin === undefined ? undefined : parseRequestUrl(options.origin);
+  const sync = options.sync === true && !useWebKit;
+
+  function cookieUrlFor(
+    url: string,
+    credentials: CookieFetchCredentials
+  ): RequestUrl | undefined {
+    if (credentials === 'omit') {
+      return undefined;
+    }
+    let requestUrl: RequestUrl;
+    try {
+      requestUrl = parseRequestUrl(url);
+    } catch {
+      // Cookies only apply to http(s) requests
+      return undefined;
+    }
+    if (
+      credentials === 'same-origin' &&
+      (origin === undefined || !isSameOrigin(requestUrl, origin))
+    ) {
+      return undefined;
+    }
+    if (
+      allowedHosts !== undefined &&
+      !allowedHosts.some((host) => isMatchingDomain(host, requestUrl.host))
+    ) {
+      return undefined;
+    }
+    return requestUrl;
+  }
+
+  async function storeCookie(url: string, header: string): Promise<void> {
+    try {
+      if (sync) {
+        NitroCookies.setFromResponseSync(url, header);
+      } else {
+        await NitroCookies.setFromResponse(url, header, useWebKit);
+      }
+    } catch (error) {
+      if (!isIgnoredSetCookieError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  return async function cookieFetch(
+    input: FetchInput,
+    init?: RequestInit
+  ): Promise<Response> {
+    const fetchImpl = options.fetch ?? fetch;
+    const url = getRequestUrl(input);
+    const credentials =
+      init?.credentials ??
+      (input instanceof Request ? input.credentials : undefined) ??
+      defaultCredentials;
+    const requestUrl = cookieUrlFor(url, credentials);
+
+    const headers = new Headers(
+      init?.headers ??
+        (typeof input === 'object' && 'headers' in input
+          ? input.headers
+          : undefined)
+    );
+    if (requestUrl) {
+      const cookies = sync
+        ? NitroCookies.getSync(url)
+        : await NitroCookies.get(url, useWebKit);
+      const cookieHeader = toCookieHeader(
+        Object.values(cookies).filter((cookie) =>
+          isSendableCookie(cookie, requestUrl)
+        )
+      );
+      if (cookieHeader) {
+        const existing = headers.get('cookie');
+        headers.set(
+          'Cookie',
+          existing ? `${existing}; ${cookieHeader}` : cookieHeader
+        );
+      }
+    }
+
+    const response = await fetchImpl(input, {
+      ...init,
+      headers,
+      credentials: 'omit',
+    });
+
+    const responseUrl = response.url || url;
+    if (cookieUrlFor(responseUrl, credentials)) {
+      for (const header of getSetCookieHeaders(response.headers)) {
+        await storeCookie(responseUrl, header);
+      }
+    }
+    return response;
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * HAR 1.2 cookie import and export
+ *
+ * HTTP Archive files record the cookies sent with every request and set by
+ * every response (`log.entries[].request.cookies` and
+ * `log.entries[].response.cookies`). Only the parts of a HAR document that
+ * describe cookies are typed here.
+ */
+
+import { NitroCookieError, toCookieError, withCookieErrors } from './errors';
+import { defaultPath } from './parser';
+import type { CookieImportEntry, CookieImportOptions } from './transfer';
+import { CookieErrorCode } from './types';
+import type { Cookie, CookieSameSite } from './types';
+import { parseRequestUrl } from './url';
+
+/**
+ * HAR 1.2 cookie object
+ */
+export interface HarCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  /** Expiry in ISO 8601 format */
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  /** Not part of HAR 1.2, written by Chromium-based browsers */
+  sameSite?: string;
+  comment?: string;
+}
+
+/**
+ * The parts of a HAR document read by `importHar`
+ */
+export interface HarLog {
+  log: {
+    entries: Array<{
+      request: { url: string; cookies?: HarCookie[] };
+      response?: { cookies?: HarCookie[] };
+    }>;
+  };
+}
+
+/**
+ * Options for importHar
+ */
+export interface HarImportOptions extends CookieImportOptions {
+  /**
+   * Which cookies to import: those sent with requests, those set by
+   * responses, or both (a response's cookies are applied after its request's)
+   * @default 'all'
+   */
+  source?: 'request' | 'response' | 'all';
+}
+
+const SAME_SITE_VALUES: readonly string[] = ['Strict', 'Lax', 'None'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidHar(message: string, cause?: unknown): NitroCookieError {
+  return new NitroCookieError(
+    CookieErrorCode.PARSE_ERROR,
+    `Invalid HAR: ${message}`,
+    { cause }
+  );
+}
+
+/**
+ * Convert a HAR cookie into a Cookie.
+ *
+ * Cookies without a domain belong to the host of the request URL. Request
+ * cookies carry no path and are given "/"; response cookies without a path
+ * get the default path of the request URL (RFC 6265 §5.1.4).
+ *
+ * @throws {NitroCookieError} INVALID_COOKIE - Missing name or value, or an attribute of the wrong type
+ * @throws {NitroCookieError} INVALID_URL - No domain and the request URL is malformed
+ */
+export function fromHarCookie(
+  harCookie: unknown,
+  requestUrl: unknown,
+  sent: boolean
+): Cookie {
+  const name =
+    isRecord(harCookie) && typeof harCookie.name === 'string'
+      ? harCookie.name
+      : undefined;
+  const invalid = (message: string) =>
+    new NitroCookieError(CookieErrorCode.INVALID_COOKIE, message, {
+      cookieName: name,
+    });
+
+  if (
+    !isRecord(harCookie) ||
+    name === undefined ||
+    typeof harCookie.value !== 'string'
+  ) {
+    throw invalid('HAR cookie must have a string name and value');
+  }
+  const { domain, path, expires, httpOnly, secure, sameSite } = harCookie;
+  if (
+    (domain !== undefined && typeof domain !== 'string') ||
+    (path !== undefined && typeof path !== 'string') ||
+    (expires !== undefined &&
+      expires !== null &&
+      (typeof expires !== 'string' || Number.isNaN(Date.parse(expires)))) ||
+    (httpOnly !== undefined && typeof httpOnly !== 'boolean') ||
+    (secure !== undefined && typeof secure !== 'boolean')
+  ) {
+    throw invalid(`HAR cookie '${name}' has an invalid attribute`);
+  }
+
+  const cookie: Cookie = { name, value: harCookie.value };
+  if (domain) {
+    cookie.domain = domain;
+  }
+  if (path?.startsWith('/')) {
+    cookie.path = path;
+  }
+  if (!cookie.domain || !cookie.path) {
+    const url = withCookieErrors({ cookieName: name }, () =>
+      parseRequestUrl(typeof requestUrl === 'string' ? requestUrl : '')
+    );
+    cookie.domain ??= url.host;
+    cookie.path ??= sent ? '/' : defaultPath(url.path);
+  }
+  if (typeof expires === 'string') {
+    cookie.expires = new Date(expires).toISOString();
+  }
+  if (httpOnly) {
+    cookie.httpOnly = true;
+  }
+  if (secure) {
+    cookie.secure = true;
+  }
+  if (typeof sameSite === 'string') {
+    // Chromium writes lowercase values
+    const value =
+      sameSite.charAt(0).toUpperCase() + sameSite.slice(1).toLowerCase();
+    if (SAME_SITE_VALUES.includes(value)) {
+      cookie.sameSite = value as CookieSameSite;
+    }
+  }
+  return cookie;
+}
+
+/**
+ * Collect the cookies of a HAR document, in entry order.
+ *
+ * Each result carries the index of its entry in `log.entries`.
+ *
+ * @throws {NitroCookieError} PARSE_ERROR - Not JSON or no `log.entries` array
+ */
+export function readHarCookies(
+  har: HarLog | string,
+  source: HarImportOptions['source'] = 'all'
+): CookieImportEntry[] {
+  let document: unknown = har;
+  if (typeof har === 'string') {
+    try {
+      document = JSON.parse(har);
+    } catch (error) {
+      throw invalidHar('not valid JSON', error);
+    }
+  }
+  const log = isRecord(document) ? document.log : undefined;
+  const entries = isRecord(log) ? log.entries : undefined;
+  if (!Array.isArray(entries)) {
+    throw invalidHar("expected a 'log.entries' array");
+  }
+
+  const results: CookieImportEntry[] = [];
+  entries.forEach((entry: unknown, index) => {
+    const request = isRecord(entry) ? entry.request : undefined;
+    const response = isRecord(entry) ? entry.response : undefined;
+    const url = isRecord(request) ? request.url : undefined;
+    const lists: Array<[unknown, boolean]> = [];
+    if (source !== 'response' && isRecord(request)) {
+      lists.push([request.cookies, true]);
+    }
+    if (source !== 'request' && isRecord(response)) {
+      lists.push([response.cookies, false]);
+    }
+
+    for (const [cookies, sent] of lists) {
+      if (!Array.isArray(cookies)) {
+        continue;
+      }
+      for (const harCookie of cookies as unknown[]) {
+        try {
+          results.push({ index, cookie: fromHarCookie(harCookie, url, sent) });
+        } catch (error) {
+          const cookieError = toCookieError(error);
+          results.push({
+            index,
+            name: cookieError.cookieName,
+            error: cookieError,
+          });
+        }
+      }
+    }
+  });
+  return results;
+}
+
+/**
+ * Convert a stored cookie into a HAR cookie object
+ */
+export function toHarCookie(cookie: Cookie): HarCookie {
+  const harCookie: HarCookie = {
+    name: cookie.name,
+    value: cookie.value,
+    path: cookie.path ?? '/',
+    domain: cookie.domain ?? '',
+    httpOnly: cookie.httpOnly === true,
+    secure: cookie.secure === true,
+  };
+  if (cookie.expires !== undefined) {
+    harCookie.expires = cookie.expires;
+  }
+  if (cookie.sameSite !== undefined) {
+    harCookie.sameSite = cookie.sameSite;
+  }
+  return harCookie;
+}
@@ -0,0 +1,381 @@
+/**
+ * In-memory implementation of the NitroCookies HybridObject for Jest
+ *
+ * Replaces the native module so that code importing react-native-nitro-cookies
+ * can be unit tested. Platform differences that affect callers (separate
+ * WebKit store on iOS, attribute-less reads and unsupported `getAll` on
+ * Android) are reproduced and can be switched per test with `setPlatform`.
+ */
+
+import type {
+  CookieListResult,
+  CookieOperationResult,
+  NitroCookies as NitroCookiesSpec,
+} from '../NitroCookies.nitro';
+import { NitroCookieError } from '../errors';
+import {
+  getExpiryTime,
+  isCookieForHost,
+  isMatchingDomain,
+  isMatchingPath,
+} from '../matching';
+import { CookieErrorCode } from '../types';
+import type { Cookie } from '../types';
+import { parseRequestUrl } from '../url';
+import type { RequestUrl } from '../url';
+
+/**
+ * Platform whose native behavior the mock reproduces
+ */
+export type MockPlatform = 'ios' | 'android';
+
+interface StoredCookie {
+  cookie: Cookie;
+  expiresAt?: number;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Run one batch item, reporting its error like the native batch methods */
+function batchItem(operation: () => boolean): CookieOperationResult {
+  try {
+    return { success: operation() };
+  } catch (error) {
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Read a stored cookie back like the native iOS store does: HTTPCookie has no
+ * partitioned flag or extension attributes, and SameSite=None is stored as
+ * the absence of a policy.
+ */
+function toHTTPCookie(cookie: Cookie): Cookie {
+  const read: Cookie = { ...cookie };
+  delete read.partitioned;
+  delete read.extensions;
+  if (read.sameSite === 'None') {
+    delete read.sameSite;
+  }
+  return read;
+}
+
+/**
+ * JavaScript implementation of every NitroCookies HybridObject method,
+ * backed by in-memory cookie stores.
+ */
+export class NitroCookiesMock implements NitroCookiesSpec {
+  readonly name = 'NitroCookies';
+
+  private platform: MockPlatform = 'ios';
+  private httpStore: StoredCookie[] = [];
+  private webKitStore: StoredCookie[] = [];
+  private responses = new Map<string, string[]>();
+
+  // ========================================
+  // TEST CONTROLS
+  // ========================================
+
+  /**
+   * Reproduce the native behavior of the given platform.
+   * @default 'ios'
+   */
+  setPlatform(platform: MockPlatform): void {
+    this.platform = platform;
+  }
+
+  /** Platform currently reproduced by the mock */
+  getPlatform(): MockPlatform {
+    return this.platform;
+  }
+
+  /**
+   * Register the Set-Cookie headers returned by `getFromResponse` for a URL.
+   * Requests to unregistered URLs fail with NETWORK_ERROR.
+   */
+  setResponseHeaders(url: string, setCookieHeaders: string[]): void {
+    this.responses.set(url, setCookieHeaders);
+  }
+
+  /** Clear all stores and registered responses and restore the iOS platform */
+  reset(): void {
+    this.platform = 'ios';
+    this.httpStore = [];
+    this.webKitStore = [];
+    this.responses.clear();
+  }
+
+  // ========================================
+  // SYNCHRONOUS METHODS
+  // ========================================
+
+  getSync(url: string): Cookie[] {
+    return this.read(this.httpStore, parseRequestUrl(url));
+  }
+
+  setSync(url: string, cookie: Cookie): boolean {
+    this.write(this.httpStore, parseRequestUrl(url), cookie);
+    return true;
+  }
+
+  clearByNameSync(url: string, name: string): boolean {
+    return this.remove(this.httpStore, parseRequestUrl(url), name);
+  }
+
+  setManySync(url: string, cookies: Cookie[]): CookieOperationResult[] {
+    const requestUrl = parseRequestUrl(url);
+    return cookies.map((cookie) =>
+      batchItem(() => {
+        this.write(this.httpStore, requestUrl, cookie);
+        return true;
+      })
+    );
+  }
+
+  getManySync(urls: string[]): CookieListResult[] {
+    return urls.map((url) => this.readMany(this.httpStore, url));
+  }
+
+  clearByNamesSync(url: string, names: string[]): CookieOperationResult[] {
+    const requestUrl = parseRequestUrl(url);
+    return names.map((name) =>
+      batchItem(() => this.remove(this.httpStore, requestUrl, name))
+    );
+  }
+
+  // ========================================
+  // ASYNCHRONOUS METHODS
+  // ========================================
+
+  async set(
+    url: string,
+    cookie: Cookie,
+    useWebKit?: boolean
+  ): Promise<boolean> {
+    this.write(this.storeFor(useWebKit), parseRequestUrl(url), cookie);
+    return true;
+  }
+
+  async get(url: string, useWebKit?: boolean): Promise<Cookie[]> {
+    return this.read(this.storeFor(useWebKit), parseRequestUrl(url));
+  }
+
+  async clearAll(useWebKit?: boolean): Promise<boolean> {
+    this.storeFor(useWebKit).length = 0;
+    return true;
+  }
+
+  async getFromResponse(url: string): Promise<string[]> {
+    parseRequestUrl(url);
+    const headers = this.responses.get(url);
+    if (!headers) {
+      throw new NitroCookieError(
+        CookieErrorCode.NETWORK_ERROR,
+        `No mock response registered for '${url}'`,
+        { url }
+      );
+    }
+    return [...headers];
+  }
+
+  async getAll(useWebKit?: boolean): Promise<Cookie[]> {
+    if (this.platform === 'android') {
+      throw new NitroCookieError(
+        CookieErrorCode.PLATFORM_UNSUPPORTED,
+        'getAll() is only available on iOS'
+      );
+    }
+    const store = this.storeFor(useWebKit);
+    this.evictExpired(store);
+    return store.map(({ cookie }) => toHTTPCookie(cookie));
+  }
+
+  async clearByName(
+    url: string,
+    name: string,
+    useWebKit?: boolean
+  ): Promise<boolean> {
+    return this.remove(this.storeFor(useWebKit), parseRequestUrl(url), name);
+  }
+
+  async setMany(
+    url: string,
+    cookies: Cookie[],
+    useWebKit?: boolean
+  ): Promise<CookieOperationResult[]> {
+    const requestUrl = parseRequestUrl(url);
+    const store = this.storeFor(useWebKit);
+    return cookies.map((cookie) =>
+      batchItem(() => {
+        this.write(store, requestUrl, cookie);
+        return true;
+      })
+    );
+  }
+
+  async getMany(
+    urls: string[],
+    useWebKit?: boolean
+  ): Promise<CookieListResult[]> {
+    const store = this.storeFor(useWebKit);
+    return urls.map((url) => this.readMany(store, url));
+  }
+
+  async clearByNames(
+    url: string,
+    names: string[],
+    useWebKit?: boolean
+  ): Promise<CookieOperationResult[]> {
+    const requestUrl = parseRequestUrl(url);
+    const store = this.storeFor(useWebKit);
+    return names.map((name) =>
+      batchItem(() => this.remove(store, requestUrl, name))
+    );
+  }
+
+  async flush(): Promise<void> {}
+
+  async removeSessionCookies(): Promise<boolean> {
+    if (this.platform === 'ios') {
+      return false;
+    }
+    const sessionCookies = this.httpStore.filter(
+      (entry) => entry.expiresAt === undefined
+    );
+    this.httpStore = this.httpStore.filter(
+      (entry) => entry.expiresAt !== undefined
+    );
+    return sessionCookies.length > 0;
+  }
+
+  // ========================================
+  // HYBRIDOBJECT
+  // ========================================
+
+  toString(): string {
+    return `[HybridObject ${this.name}]`;
+  }
+
+  equals(other: unknown): boolean {
+    return other === this;
+  }
+
+  dispose(): void {}
+
+  // ========================================
+  // STORE HELPERS
+  // ========================================
+
+  /** Android has a single CookieManager store and ignores useWebKit */
+  private storeFor(useWebKit: boolean | undefined): StoredCookie[] {
+    return useWebKit === true && this.platform === 'ios'
+      ? this.webKitStore
+      : this.httpStore;
+  }
+
+  private evictExpired(store: StoredCookie[]): void {
+    const now = Date.now();
+    for (let i = store.length - 1; i >= 0; i--) {
+      const expiresAt = store[i]!.expiresAt;
+      if (expiresAt !== undefined && expiresAt <= now) {
+        store.splice(i, 1);
+      }
+    }
+  }
+
+  private write(store: StoredCookie[], url: RequestUrl, cookie: Cookie): void {
+    const rawDomain = cookie.domain ?? url.host;
+    if (!isMatchingDomain(rawDomain, url.host)) {
+      throw new NitroCookieError(
+        CookieErrorCode.DOMAIN_MISMATCH,
+        `Cookie domain '${rawDomain}' does not match URL host '${url.host}'`
+      );
+    }
+
+    const expiresAt = getExpiryTime(cookie);
+    const stored: Cookie = {
+      ...cookie,
+      // Host-only cookies are stored for the URL host, whatever their domain
+      domain:
+        cookie.hostOnly === true
+          ? url.host
+          : rawDomain.replace(/^\./, '').toLowerCase(),
+      path: cookie.path ?? '/',
+    };
+    if (stored.hostOnly !== true) {
+      delete stored.hostOnly;
+    }
+    // Native stores resolve Max-Age into an absolute expiry date
+    delete stored.maxAge;
+    if (expiresAt !== undefined) {
+      stored.expires = new Date(expiresAt).toISOString();
+    }
+
+    const index = store.findIndex(
+      (entry) =>
+        entry.cookie.name === stored.name &&
+        entry.cookie.domain === stored.domain &&
+        entry.cookie.path === stored.path
+    );
+    if (index !== -1) {
+      store.splice(index, 1);
+    }
+    if (expiresAt === undefined || expiresAt > Date.now()) {
+      store.push({ cookie: stored, expiresAt });
+    }
+  }
+
+  private read(store: StoredCookie[], url: RequestUrl): Cookie[] {
+    this.evictExpired(store);
+
+    if (this.platform === 'android') {
+      // CookieManager applies path and secure rules but only returns name=value
+      return store
+        .filter(
+          ({ cookie }) =>
+            isCookieForHost(cookie, url.host) &&
+            isMatchingPath(cookie.path!, url.path) &&
+            (cookie.secure !== true || url.protocol === 'https')
+        )
+        .map(({ cookie }) => ({
+          name: cookie.name,
+          value: cookie.value,
+          path: '/',
+          domain: url.host,
+        }));
+    }
+
+    // iOS filters stored cookies by domain only
+    return store
+      .filter(({ cookie }) => isCookieForHost(cookie, url.host))
+      .map(({ cookie }) => toHTTPCookie(cookie));
+  }
+
+  /** Native batch reads report a failing URL instead of failing the batch */
+  private readMany(store: StoredCookie[], url: string): CookieListResult {
+    try {
+      return { cookies: this.read(store, parseRequestUrl(url)) };
+    } catch (error) {
+      return { cookies: [], error: errorMessage(error) };
+    }
+  }
+
+  private remove(
+    store: StoredCookie[],
+    url: RequestUrl,
+    name: string
+  ): boolean {
+    this.evictExpired(store);
+    const index = store.findIndex(
+      ({ cookie }) =>
+        cookie.name === name && isMatchingDomain(cookie.domain!, url.host)
+    );
+    if (index === -1) {
+      return false;
+    }
+    store.splice(index, 1);
+    return true;
+  }
+}
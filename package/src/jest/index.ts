@@ -0,0 +1,56 @@
+/**
+ * Jest support for react-native-nitro-cookies
+ *
+ * The native NitroCookies HybridObject is unavailable under Jest. This entry
+ * point provides an in-memory replacement that is installed by mocking
+ * `react-native-nitro-modules`:
+ *
+ * @example
+ * ```typescript
+ * // jest.setup.js
+ * jest.mock('react-native-nitro-modules', () =>
+ *   require('react-native-nitro-cookies/jest').nitroModulesMock
+ * );
+ *
+ * // my.test.ts
+ * import { nitroCookiesMock } from 'react-native-nitro-cookies/jest';
+ *
+ * beforeEach(() => nitroCookiesMock.reset());
+ *
+ * it('fails getAll on Android', async () => {
+ *   nitroCookiesMock.setPlatform('android');
+ *   await expect(NitroCookies.getAll()).rejects.toMatchObject({
+ *     code: 'PLATFORM_UNSUPPORTED',
+ *   });
+ * });
+ * ```
+ */
+
+import { NitroCookiesMock } from './NitroCookiesMock';
+
+export { NitroCookiesMock };
+export type { MockPlatform } from './NitroCookiesMock';
+
+/**
+ * Shared mock instance returned for every `createHybridObject('NitroCookies')` call
+ */
+export const nitroCookiesMock = new NitroCookiesMock();
+
+/**
+ * Module factory result for `jest.mock('react-native-nitro-modules', ...)`.
+ *
+ * Only the NitroCookies HybridObject is provided; creating any other
+ * HybridObject throws.
+ */
+export const nitroModulesMock = {
+  NitroModules: {
+    createHybridObject<T>(name: string): T {
+      if (name !== nitroCookiesMock.name) {
+        throw new Error(
+          `react-native-nitro-cookies/jest cannot create HybridObject '${name}'`
+        );
+      }
+      return nitroCookiesMock as T;
+    },
+  },
+};
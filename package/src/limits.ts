@@ -0,0 +1,291 @@
+/**
+ * Browser cookie size and count limits
+ *
+ * Browsers drop cookies whose name and value exceed 4096 bytes and evict the
+ * oldest cookies of a domain past a per-domain count. The native stores
+ * accept such cookies, and the loss only shows up once a WebView or server
+ * sees them. When limits are configured, cookie writes are checked here
+ * before they reach the native store.
+ *
+ * Counting uses a ledger of the cookies written through the library since
+ * limits were configured. Cookies stored by WebViews or the platform
+ * networking layer are not counted.
+ */
+
+import { subscribeToChanges } from './changes';
+import type { CookieChangeEvent, CookieStore } from './changes';
+import { NitroCookieError } from './errors';
+import { getExpiryTime, isMatchingDomain } from './matching';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+/**
+ * Size and count limits for cookie writes
+ */
+export interface CookieLimits {
+  /** Maximum size of name and value together, in UTF-8 bytes */
+  maxCookieSize?: number;
+
+  /** Maximum number of cookies per cookie domain and store */
+  maxCookiesPerDomain?: number;
+
+  /** Maximum number of cookies per store */
+  maxCookies?: number;
+
+  /**
+   * What happens when a write exceeds a limit:
+   * - `reject`: throw LIMIT_EXCEEDED and store nothing
+   * - `evict`: store the cookie and remove the oldest cookies over a count
+   *   limit (oversized cookies are rejected)
+   * - `warn`: store the cookie and pass the LIMIT_EXCEEDED error to
+   *   `onWarning`
+   * @default 'reject'
+   */
+  onExceeded?: 'reject' | 'evict' | 'warn';
+
+  /** Called before a cookie over a limit is stored with `onExceeded: 'warn'` */
+  onWarning?: (error: NitroCookieError) => void;
+}
+
+/**
+ * Limits applied by browsers: the RFC 6265 §6.1 minimums for cookie size
+ * and total count, and Chromium's limit of 180 cookies per domain
+ */
+export const BROWSER_COOKIE_LIMITS: Readonly<CookieLimits> = {
+  maxCookieSize: 4096,
+  maxCookiesPerDomain: 180,
+  maxCookies: 3000,
+};
+
+/**
+ * A stored cookie to remove after a write, to make room under a count limit
+ */
+export interface CookieEviction {
+  /** URL the cookie was written for */
+  url: string;
+
+  /** Name, domain and path of the stored cookie */
+  cookie: Pick<Cookie, 'name' | 'domain' | 'path' | 'hostOnly'>;
+}
+
+interface LedgerEntry extends CookieEviction {
+  domain: string;
+  store: CookieStore;
+  expiresAt?: number;
+}
+
+let limits: CookieLimits = {};
+// Keyed by store, name, domain and path. Overwriting a cookie keeps its
+// position, so iteration order is creation order like in browsers.
+const ledger = new Map<string, LedgerEntry>();
+let unsubscribe: (() => void) | undefined;
+
+function getDomain(
+  url: string,
+  cookie: Pick<Cookie, 'domain' | 'hostOnly'>
+): string {
+  const { host } = parseRequestUrl(url);
+  return cookie.hostOnly === true
+    ? host
+    : (cookie.domain?.replace(/^\./, '') ?? host).toLowerCase();
+}
+
+function getLedgerKey(
+  url: string,
+  cookie: CookieEviction['cookie'],
+  store: CookieStore
+) {
+  return [store, cookie.name, getDomain(url, cookie), cookie.path ?? '/'].join(
+    '\0'
+  );
+}
+
+function getEvictionKey(url: string, cookie: Cookie): CookieEviction['cookie'] {
+  const key = {
+    name: cookie.name,
+    domain: getDomain(url, cookie),
+    path: cookie.path ?? '/',
+  };
+  return cookie.hostOnly === true ? { ...key, hostOnly: true } : key;
+}
+
+function isExpired(expiresAt: number | undefined, now: number): boolean {
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+function recordChange(event: CookieChangeEvent): void {
+  switch (event.type) {
+    case 'set': {
+      const { url, cookie, store } = event;
+      const key = getLedgerKey(url, cookie, store);
+      const expiresAt = getExpiryTime(cookie);
+      if (isExpired(expiresAt, Date.now())) {
+        ledger.delete(key);
+      } else {
+        ledger.set(key, {
+          url,
+          cookie: getEvictionKey(url, cookie),
+          domain: getDomain(url, cookie),
+          store,
+          expiresAt,
+        });
+      }
+      break;
+    }
+    case 'removed': {
+      // Same rule as the native clearByName: name and domain only
+      const { host } = parseRequestUrl(event.url);
+      for (const [key, entry] of ledger) {
+        if (
+          entry.store === event.store &&
+          entry.cookie.name === event.cookie.name &&
+          isMatchingDomain(entry.domain, host)
+        ) {
+          ledger.delete(key);
+        }
+      }
+      break;
+    }
+    case 'evicted':
+      ledger.delete(getLedgerKey(event.url, event.cookie, event.store));
+      break;
+    case 'cleared':
+      for (const [key, entry] of ledger) {
+        if (entry.store === event.store) {
+          ledger.delete(key);
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Replace the limits. Empty limits disable checking and forget the ledger.
+ */
+export function setCookieLimits(next: CookieLimits): void {
+  limits = { ...next };
+  const counting =
+    limits.maxCookiesPerDomain !== undefined || limits.maxCookies !== undefined;
+  if (counting && unsubscribe === undefined) {
+    unsubscribe = subscribeToChanges(recordChange);
+  } else if (!counting && unsubscribe !== undefined) {
+    unsubscribe();
+    unsubscribe = undefined;
+    ledger.clear();
+  }
+}
+
+// UTF-8 length without TextEncoder, which older Hermes versions lack
+function getByteLength(text: string): number {
+  let length = 0;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    length +=
+      codePoint < 0x80
+        ? 1
+        : codePoint < 0x800
+          ? 2
+          : codePoint < 0x10000
+            ? 3
+            : 4;
+  }
+  return length;
+}
+
+/**
+ * Create a check for the cookies of one write to a store. Cookies checked
+ * with the same function are counted together, so that a batch is checked
+ * as a whole.
+ *
+ * The returned function throws LIMIT_EXCEEDED if the cookie must be rejected,
+ * and otherwise returns the cookies to evict once it is stored.
+ */
+export function createLimitCheck(
+  store: CookieStore
+): (url: string, cookie: Cookie) => CookieEviction[] {
+  const { maxCookieSize, maxCookiesPerDomain, maxCookies, onWarning } = limits;
+  const onExceeded = limits.onExceeded ?? 'reject';
+  const now = Date.now();
+  const entries = new Map(
+    [...ledger].filter(
+      ([, entry]) => entry.store === store && !isExpired(entry.expiresAt, now)
+    )
+  );
+
+  return (url, cookie) => {
+    const limitError = (message: string) =>
+      new NitroCookieError(CookieErrorCode.LIMIT_EXCEEDED, message, {
+        url,
+        cookieName: cookie.name,
+      });
+    // Returns true when cookies must be evicted to make room
+    const exceeded = (message: string): boolean => {
+      if (onExceeded === 'warn') {
+        onWarning?.(limitError(message));
+        return false;
+      }
+      if (onExceeded === 'reject') {
+        throw limitError(message);
+      }
+      return true;
+    };
+
+    if (maxCookieSize !== undefined) {
+      const size = getByteLength(cookie.name) + getByteLength(cookie.value);
+      const message = `Cookie '${cookie.name}' is ${size} bytes, over the limit of ${maxCookieSize} bytes for name and value`;
+      if (size > maxCookieSize && exceeded(message)) {
+        // Evicting other cookies can't make an oversized cookie fit
+        throw limitError(message);
+      }
+    }
+
+    const key = getLedgerKey(url, cookie, store);
+    if (entries.has(key) || isExpired(getExpiryTime(cookie, now), now)) {
+      // Replacing or deleting a cookie doesn't add to any count
+      return [];
+    }
+
+    const domain = getDomain(url, cookie);
+    const evictions: CookieEviction[] = [];
+    // Make room for the new cookie, oldest first
+    const evictOldest = (
+      candidates: Array<[string, LedgerEntry]>,
+      limit: number,
+      message: string
+    ) => {
+      const count = candidates.length - limit + 1;
+      if (count > candidates.length) {
+        throw limitError(message);
+      }
+      for (const [oldestKey, oldest] of candidates.slice(0, count)) {
+        entries.delete(oldestKey);
+        evictions.push({ url: oldest.url, cookie: oldest.cookie });
+      }
+    };
+
+    if (maxCookiesPerDomain !== undefined) {
+      const sameDomain = [...entries].filter(
+        ([, entry]) => entry.domain === domain
+      );
+      const message = `Domain '${domain}' has ${sameDomain.length} cookies, the limit per domain is ${maxCookiesPerDomain}`;
+      if (sameDomain.length >= maxCookiesPerDomain && exceeded(message)) {
+        evictOldest(sameDomain, maxCookiesPerDomain, message);
+      }
+    }
+    if (maxCookies !== undefined) {
+      const message = `The ${store} store has ${entries.size} cookies, the limit is ${maxCookies}`;
+      if (entries.size >= maxCookies && exceeded(message)) {
+        evictOldest([...entries], maxCookies, message);
+      }
+    }
+
+    entries.set(key, {
+      url,
+      cookie: getEvictionKey(url, cookie),
+      domain,
+      store,
+    });
+    return evictions;
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Cookie matching rules shared by the JavaScript cookie stores
+ *
+ * Mirrors the native `isMatchingDomain` helpers and the RFC 6265 §5.1.4
+ * path-match algorithm.
+ */
+
+import type { Cookie } from './types';
+import type { RequestUrl } from './url';
+
+// Latest time representable by a JavaScript Date
+const MAX_DATE_TIME = 8.64e15;
+
+/**
+ * Check if a cookie domain matches or is a parent of a URL host.
+ *
+ * Same rules as the native `isMatchingDomain` on iOS and Android:
+ * exact match, wildcard (".example.com") match, or subdomain match.
+ */
+export function isMatchingDomain(
+  cookieDomain: string,
+  urlHost: string
+): boolean {
+  const domain = cookieDomain.toLowerCase();
+  const host = urlHost.toLowerCase();
+
+  if (domain === host) {
+    return true;
+  }
+
+  if (domain.startsWith('.')) {
+    const bareDomain = domain.slice(1);
+    return host.endsWith(`.${bareDomain}`) || host === bareDomain;
+  }
+
+  return host.endsWith(`.${domain}`);
+}
+
+/**
+ * Check if a stored cookie applies to a URL host: host-only cookies only to
+ * their exact host, other cookies also to subdomains of their domain.
+ */
+export function isCookieForHost(cookie: Cookie, urlHost: string): boolean {
+  return cookie.hostOnly === true
+    ? cookie.domain!.toLowerCase() === urlHost.toLowerCase()
+    : isMatchingDomain(cookie.domain!, urlHost);
+}
+
+/**
+ * Check if a request path path-matches a cookie path (RFC 6265 §5.1.4)
+ */
+export function isMatchingPath(
+  cookiePath: string,
+  requestPath: string
+): boolean {
+  if (cookiePath === requestPath) {
+    return true;
+  }
+  if (!requestPath.startsWith(cookiePath)) {
+    return false;
+  }
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+/**
+ * Check the path and Secure rules for sending a cookie read from the native
+ * store. Native reads on iOS filter by domain only; Android already applies
+ * these rules and returns cookies without attributes.
+ */
+export function isSendableCookie(cookie: Cookie, url: RequestUrl): boolean {
+  return (
+    isMatchingPath(cookie.path ?? '/', url.path) &&
+    (cookie.secure !== true || url.protocol === 'https')
+  );
+}
+
+/**
+ * Compute the absolute expiry time of a cookie in milliseconds.
+ *
+ * `maxAge` takes precedence over `expires`. Returns undefined for session
+ * cookies and for `expires` values that are not valid dates.
+ *
+ * @param now - Reference time for `maxAge` (defaults to the current time)
+ */
+export function getExpiryTime(
+  cookie: Cookie,
+  now: number = Date.now()
+): number | undefined {
+  if (cookie.maxAge !== undefined) {
+    return cookie.maxAge <= 0
+      ? 0
+      : Math.min(now + cookie.maxAge * 1000, MAX_DATE_TIME);
+  }
+  if (cookie.expires !== undefined) {
+    const time = Date.parse(cookie.expires);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
@@ -0,0 +1,141 @@
+/**
+ * Shadow store of cookie attributes
+ *
+ * Android's CookieManager only returns `name=value` pairs, so cookies read
+ * there have no expiry, Secure or HttpOnly information. When attribute
+ * tracking is enabled, the attributes of every cookie written through the
+ * library are kept here and merged back into attribute-less read results.
+ * An entry is dropped as soon as a read returns a different value for it,
+ * since the cookie was then changed outside the library.
+ */
+
+import { subscribeToChanges } from './changes';
+import type { CookieChangeEvent } from './changes';
+import {
+  getExpiryTime,
+  isCookieForHost,
+  isMatchingDomain,
+  isSendableCookie,
+} from './matching';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+interface AttributeEntry {
+  cookie: Cookie;
+  expiresAt?: number;
+}
+
+let entries: AttributeEntry[] = [];
+let unsubscribe: (() => void) | undefined;
+
+function recordSet(url: string, cookie: Cookie): void {
+  const { host } = parseRequestUrl(url);
+  const now = Date.now();
+  const expiresAt = getExpiryTime(cookie, now);
+  const stored: Cookie = {
+    ...cookie,
+    domain:
+      cookie.hostOnly === true
+        ? host
+        : (cookie.domain ?? host).replace(/^\./, '').toLowerCase(),
+    path: cookie.path ?? '/',
+  };
+  // Store the absolute expiry that the native store resolved maxAge into
+  delete stored.maxAge;
+  if (expiresAt !== undefined) {
+    stored.expires = new Date(expiresAt).toISOString();
+  }
+
+  entries = entries.filter(
+    (entry) =>
+      entry.cookie.name !== stored.name ||
+      entry.cookie.domain !== stored.domain ||
+      entry.cookie.path !== stored.path
+  );
+  if (expiresAt === undefined || expiresAt > now) {
+    entries.push({ cookie: stored, expiresAt });
+  }
+}
+
+function recordChange(event: CookieChangeEvent): void {
+  switch (event.type) {
+    case 'set':
+      recordSet(event.url, event.cookie);
+      break;
+    case 'removed': {
+      // Same rule as the native clearByName: name and domain only
+      const { host } = parseRequestUrl(event.url);
+      entries = entries.filter(
+        (entry) =>
+          entry.cookie.name !== event.cookie.name ||
+          !isMatchingDomain(entry.cookie.domain!, host)
+      );
+      break;
+    }
+    case 'evicted': {
+      const { name, domain, path } = event.cookie;
+      entries = entries.filter(
+        (entry) =>
+          entry.cookie.name !== name ||
+          entry.cookie.domain !== domain ||
+          entry.cookie.path !== path
+      );
+      break;
+    }
+    case 'cleared':
+      entries = [];
+      break;
+  }
+}
+
+/**
+ * Enable or disable attribute tracking. Disabling forgets every entry.
+ */
+export function setAttributeTracking(enabled: boolean): void {
+  if (enabled && unsubscribe === undefined) {
+    unsubscribe = subscribeToChanges(recordChange);
+  } else if (!enabled && unsubscribe !== undefined) {
+    unsubscribe();
+    unsubscribe = undefined;
+    entries = [];
+  }
+}
+
+/**
+ * Restore tracked attributes into cookies read from a URL.
+ *
+ * Cookies that already carry attributes (every iOS read) are returned
+ * unchanged. For the others, the tracked cookie with the same name and value
+ * that applies to the URL is returned instead; when only tracked cookies with
+ * other values apply, they are forgotten.
+ */
+export function mergeAttributes(url: string, cookies: Cookie[]): Cookie[] {
+  if (entries.length === 0) {
+    return cookies;
+  }
+  const requestUrl = parseRequestUrl(url);
+  const now = Date.now();
+  entries = entries.filter(
+    (entry) => entry.expiresAt === undefined || entry.expiresAt > now
+  );
+
+  return cookies.map((cookie) => {
+    if (cookie.secure !== undefined || cookie.httpOnly !== undefined) {
+      return cookie;
+    }
+    const candidates = entries.filter(
+      (entry) =>
+        entry.cookie.name === cookie.name &&
+        isCookieForHost(entry.cookie, requestUrl.host) &&
+        isSendableCookie(entry.cookie, requestUrl)
+    );
+    const match = candidates
+      .filter((entry) => entry.cookie.value === cookie.value)
+      .sort((a, b) => b.cookie.path!.length - a.cookie.path!.length)[0];
+    if (match === undefined) {
+      entries = entries.filter((entry) => !candidates.includes(entry));
+      return cookie;
+    }
+    return { ...match.cookie };
+  });
+}
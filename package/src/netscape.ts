@@ -0,0 +1,120 @@
+/**
+ * Netscape cookies.txt format
+ *
+ * The tab-separated format written by curl (`-c`) and wget
+ * (`--save-cookies`) and read by curl (`-b`):
+ *
+ *   domain  includeSubdomains  path  secure  expiry  name  value
+ *
+ * `expiry` is in seconds since the epoch, 0 for session cookies. HttpOnly
+ * cookies are written with a `#HttpOnly_` prefix on the domain.
+ */
+
+import { NitroCookieError } from './errors';
+import { getExpiryTime } from './matching';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * First line of a cookies.txt file, recognized by curl and wget
+ */
+export const NETSCAPE_HEADER = '# Netscape HTTP Cookie File';
+
+function parseFlag(value: string, field: string, cookieName: string): boolean {
+  switch (value.toUpperCase()) {
+    case 'TRUE':
+      return true;
+    case 'FALSE':
+      return false;
+    default:
+      throw new NitroCookieError(
+        CookieErrorCode.PARSE_ERROR,
+        `Invalid ${field} flag '${value}' in cookies.txt line`,
+        { cookieName }
+      );
+  }
+}
+
+/**
+ * Parse one line of a cookies.txt file
+ *
+ * @returns The cookie, or undefined for blank and comment lines
+ * @throws {NitroCookieError} PARSE_ERROR - Wrong number of fields or invalid flag or expiry
+ */
+export function parseNetscapeLine(line: string): Cookie | undefined {
+  let text = line.replace(/\r$/, '');
+  let httpOnly = false;
+  if (text.startsWith(HTTP_ONLY_PREFIX)) {
+    text = text.slice(HTTP_ONLY_PREFIX.length);
+    httpOnly = true;
+  } else if (text.trim() === '' || text.startsWith('#')) {
+    return undefined;
+  }
+
+  const fields = text.split('\t');
+  if (fields.length < 7) {
+    throw new NitroCookieError(
+      CookieErrorCode.PARSE_ERROR,
+      `Expected 7 tab-separated fields in cookies.txt line, found ${fields.length}`
+    );
+  }
+  const [domain, includeSubdomains, path, secure, expiry, name] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+  // Tabs are not valid in cookie values, but keep whatever follows the name
+  const value = fields.slice(6).join('\t');
+
+  if (!/^\d+$/.test(expiry)) {
+    throw new NitroCookieError(
+      CookieErrorCode.PARSE_ERROR,
+      `Invalid expiry '${expiry}' in cookies.txt line`,
+      { cookieName: name }
+    );
+  }
+  const bareDomain = domain.replace(/^\./, '');
+  const cookie: Cookie = parseFlag(includeSubdomains, 'includeSubdomains', name)
+    ? { name, value, domain: `.${bareDomain}`, path }
+    : { name, value, domain: bareDomain, hostOnly: true, path };
+  if (parseFlag(secure, 'secure', name)) {
+    cookie.secure = true;
+  }
+  if (httpOnly) {
+    cookie.httpOnly = true;
+  }
+  const seconds = Number(expiry);
+  if (seconds > 0) {
+    cookie.expires = new Date(seconds * 1000).toISOString();
+  }
+  return cookie;
+}
+
+/**
+ * Format a cookie as one cookies.txt line.
+ *
+ * Host-only cookies are written without subdomains and without a leading
+ * dot. Every other cookie with a domain includes subdomains, since the
+ * library matches a cookie's domain against its subdomains.
+ */
+export function toNetscapeLine(cookie: Cookie): string {
+  const hostOnly = cookie.hostOnly === true || cookie.domain === undefined;
+  const domain = hostOnly
+    ? (cookie.domain ?? '').replace(/^\./, '')
+    : (cookie.domain ?? '');
+  const expiresAt = getExpiryTime(cookie);
+  return [
+    `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${domain}`,
+    hostOnly ? 'FALSE' : 'TRUE',
+    cookie.path ?? '/',
+    cookie.secure ? 'TRUE' : 'FALSE',
+    expiresAt === undefined ? '0' : String(Math.floor(expiresAt / 1000)),
+    cookie.name,
+    cookie.value,
+  ].join('\t');
+}
@@ -0,0 +1,89 @@
+/**
+ * Registry of URLs that cookies were written for
+ *
+ * Android's CookieManager can only read cookies for a given URL, so `getAll`
+ * and `find` can't enumerate its store. When tracking is enabled, every
+ * cookie written through the library records the URL it can be read back
+ * from, and those URLs are read in place of an enumeration. The registry
+ * lives in memory: origins written in a previous app session have to be
+ * registered again with `registerOrigin`.
+ */
+
+import { subscribeToChanges } from './changes';
+import type { CookieChangeEvent } from './changes';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+const origins = new Set<string>();
+let unsubscribe: (() => void) | undefined;
+
+/**
+ * Build the URL a cookie can be read back from: its host, its path and
+ * https for Secure cookies, so that CookieManager returns it.
+ */
+function toOriginUrl(
+  url: string,
+  cookie?: Pick<Cookie, 'path' | 'secure'>
+): string {
+  const { protocol, host, path } = parseRequestUrl(url);
+  const cookiePath = cookie === undefined ? path : (cookie.path ?? '/');
+  return `${cookie?.secure ? 'https' : protocol}://${host}${
+    cookiePath.startsWith('/') ? cookiePath : '/'
+  }`;
+}
+
+function recordChange(event: CookieChangeEvent): void {
+  if (event.type === 'set') {
+    trackOrigin(event.url, event.cookie);
+  }
+}
+
+/**
+ * Record the URL a cookie received from `url` can be read back from, if
+ * tracking is enabled. Stored cookies are recorded automatically.
+ */
+export function trackOrigin(
+  url: string,
+  cookie: Pick<Cookie, 'path' | 'secure'>
+): void {
+  if (isOriginTrackingEnabled()) {
+    origins.add(toOriginUrl(url, cookie));
+  }
+}
+
+/**
+ * Enable or disable automatic tracking of the URLs cookies are written for
+ */
+export function setOriginTracking(enabled: boolean): void {
+  if (enabled && unsubscribe === undefined) {
+    unsubscribe = subscribeToChanges(recordChange);
+  } else if (!enabled && unsubscribe !== undefined) {
+    unsubscribe();
+    unsubscribe = undefined;
+  }
+}
+
+/** Whether origin tracking is enabled */
+export function isOriginTrackingEnabled(): boolean {
+  return unsubscribe !== undefined;
+}
+
+/**
+ * Add a URL to the registry. Registered URLs are kept while tracking is
+ * disabled and only read while it is enabled.
+ *
+ * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+ */
+export function registerOrigin(url: string): void {
+  origins.add(toOriginUrl(url));
+}
+
+/** Registered URLs, in registration order */
+export function getTrackedOrigins(): string[] {
+  return [...origins];
+}
+
+/** Remove every registered URL */
+export function clearTrackedOrigins(): void {
+  origins.clear();
+}
@@ -0,0 +1,357 @@
+/**
+ * RFC 6265 Set-Cookie parser
+ *
+ * Pure TypeScript implementation of the parsing algorithm in RFC 6265 §5.2,
+ * shared by iOS, Android and Jest so that every platform interprets a
+ * Set-Cookie header the same way.
+ */
+
+import { NitroCookieError } from './errors';
+import { CookieErrorCode } from './types';
+import type { Cookie, CookieSameSite } from './types';
+import { parseRequestUrl } from './url';
+import { isToken } from './validation';
+
+const SAME_SITE_VALUES: Record<string, CookieSameSite> = {
+  strict: 'Strict',
+  lax: 'Lax',
+  none: 'None',
+};
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+// delimiter = %x09 / %x20-2F / %x3B-40 / %x5B-60 / %x7B-7E (RFC 6265 §5.1.1)
+const DATE_DELIMITER = /[\t\x20-\x2F\x3B-\x40\x5B-\x60\x7B-\x7E]+/;
+// Latest time representable by a JavaScript Date
+const MAX_DATE_TIME = 8.64e15;
+const TIME_TOKEN = /^(\d{1,2}):(\d{1,2}):(\d{1,2})(?:\D.*)?$/;
+const DAY_OF_MONTH_TOKEN = /^(\d{1,2})(?:\D.*)?$/;
+const YEAR_TOKEN = /^(\d{2,4})(?:\D.*)?$/;
+
+/**
+ * Parse a cookie-date as described in RFC 6265 §5.1.1.
+ *
+ * @returns The parsed date, or null if the string is not a valid cookie-date
+ */
+function parseCookieDate(value: string): Date | null {
+  let time: [number, number, number] | null = null;
+  let dayOfMonth: number | null = null;
+  let month: number | null = null;
+  let year: number | null = null;
+
+  for (const token of value.split(DATE_DELIMITER)) {
+    if (!token) {
+      continue;
+    }
+
+    const timeMatch: RegExpExecArray | null =
+      time === null ? TIME_TOKEN.exec(token) : null;
+    if (timeMatch) {
+      time = [Number(timeMatch[1]), Number(timeMatch[2]), Number(timeMatch[3])];
+      continue;
+    }
+
+    const dayMatch: RegExpExecArray | null =
+      dayOfMonth === null ? DAY_OF_MONTH_TOKEN.exec(token) : null;
+    if (dayMatch) {
+      dayOfMonth = Number(dayMatch[1]);
+      continue;
+    }
+
+    if (month === null) {
+      const monthIndex = MONTHS.indexOf(token.slice(0, 3).toLowerCase());
+      if (monthIndex !== -1) {
+        month = monthIndex;
+        continue;
+      }
+    }
+
+    const yearMatch: RegExpExecArray | null =
+      year === null ? YEAR_TOKEN.exec(token) : null;
+    if (yearMatch) {
+      year = Number(yearMatch[1]);
+    }
+  }
+
+  if (time === null || dayOfMonth === null || month === null || year === null) {
+    return null;
+  }
+
+  if (year >= 70 && year <= 99) {
+    year += 1900;
+  } else if (year >= 0 && year <= 69) {
+    year += 2000;
+  }
+
+  const [hour, minute, second] = time;
+  if (
+    dayOfMonth < 1 ||
+    dayOfMonth > 31 ||
+    year < 1601 ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return null;
+  }
+
+  const date = new Date(
+    Date.UTC(year, month, dayOfMonth, hour, minute, second)
+  );
+  // Reject dates that roll over into the next month (e.g. 31 Feb)
+  if (date.getUTCDate() !== dayOfMonth) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Compute the default-path of a request URI path (RFC 6265 §5.1.4)
+ */
+export function defaultPath(uriPath: string): string {
+  if (!uriPath.startsWith('/')) {
+    return '/';
+  }
+  const lastSlash = uriPath.lastIndexOf('/');
+  return lastSlash === 0 ? '/' : uriPath.slice(0, lastSlash);
+}
+
+/**
+ * Remove leading and trailing whitespace (SP / HTAB) as defined by RFC 6265
+ */
+function trimWhitespace(value: string): string {
+  return value.replace(/^[ \t]+|[ \t]+$/g, '');
+}
+
+function parseError(message: string, url: string): NitroCookieError {
+  return new NitroCookieError(CookieErrorCode.PARSE_ERROR, message, { url });
+}
+
+/**
+ * Parse a single Set-Cookie header value into a Cookie.
+ *
+ * Implements the RFC 6265 §5.2 algorithm, plus the SameSite attribute from
+ * RFC 6265bis and the Partitioned (CHIPS) attribute. Attributes that fail to parse
+ * (such as an invalid Expires date) are ignored as the RFC requires, while a
+ * header that cannot produce a cookie at all is reported as an error.
+ * Unrecognized attributes are preserved in `extensions`.
+ *
+ * Path defaults to the default-path of the request URL and domain defaults
+ * to the request host. When Max-Age is present, `expires` is computed from it
+ * and any Expires attribute is ignored.
+ *
+ * @param header - A single Set-Cookie header value (e.g. "id=a3fWa; Path=/; Secure")
+ * @param requestUrl - The URL of the request that received the header
+ * @returns The parsed cookie
+ * @throws {NitroCookieError} INVALID_URL - requestUrl is malformed or missing protocol
+ * @throws {NitroCookieError} PARSE_ERROR - Header has no name=value pair or an empty name
+ *
+ * @example
+ * ```typescript
+ * const cookie = parseSetCookie(
+ *   'session=abc123; Path=/; Expires=Wed, 21 Oct 2030 07:28:00 GMT; Secure',
+ *   'https://example.com/login'
+ * );
+ * // { name: 'session', value: 'abc123', path: '/', domain: 'example.com',
+ * //   expires: '2030-10-21T07:28:00.000Z', secure: true }
+ * ```
+ */
+export function parseSetCookie(header: string, requestUrl: string): Cookie {
+  return parseSetCookieEntry(header, requestUrl).cookie;
+}
+
+/**
+ * Parse a Set-Cookie header value like `parseSetCookie`, also reporting
+ * whether the cookie is host-only (no Domain attribute, RFC 6265 §5.3 step 6).
+ */
+export function parseSetCookieEntry(
+  header: string,
+  requestUrl: string
+): { cookie: Cookie; hostOnly: boolean } {
+  const url = parseRequestUrl(requestUrl);
+
+  const separator = header.indexOf(';');
+  const nameValuePair = separator === -1 ? header : header.slice(0, separator);
+  const unparsedAttributes = separator === -1 ? '' : header.slice(separator);
+
+  const equals = nameValuePair.indexOf('=');
+  if (equals === -1) {
+    throw parseError(
+      `Set-Cookie header '${header}' has no name=value pair`,
+      requestUrl
+    );
+  }
+
+  const name = trimWhitespace(nameValuePair.slice(0, equals));
+  const value = trimWhitespace(nameValuePair.slice(equals + 1));
+  if (!name) {
+    throw parseError(
+      `Set-Cookie header '${header}' has an empty cookie name`,
+      requestUrl
+    );
+  }
+
+  const cookie: Cookie = { name, value };
+  let expires: string | undefined;
+
+  for (const attribute of unparsedAttributes.split(';').slice(1)) {
+    const attrEquals = attribute.indexOf('=');
+    const rawAttrName = trimWhitespace(
+      attrEquals === -1 ? attribute : attribute.slice(0, attrEquals)
+    );
+    const attrName = rawAttrName.toLowerCase();
+    const attrValue =
+      attrEquals === -1 ? '' : trimWhitespace(attribute.slice(attrEquals + 1));
+
+    switch (attrName) {
+      case 'expires': {
+        const date = parseCookieDate(attrValue);
+        if (date) {
+          expires = date.toISOString();
+        }
+        break;
+      }
+      case 'max-age': {
+        if (/^-?\d+$/.test(attrValue)) {
+          cookie.maxAge = Math.max(
+            Math.min(Number(attrValue), Number.MAX_SAFE_INTEGER),
+            Number.MIN_SAFE_INTEGER
+          );
+        }
+        break;
+      }
+      case 'domain': {
+        if (attrValue) {
+          const domain = attrValue.startsWith('.')
+            ? attrValue.slice(1)
+            : attrValue;
+          cookie.domain = domain.toLowerCase();
+        }
+        break;
+      }
+      case 'path': {
+        cookie.path = attrValue.startsWith('/')
+          ? attrValue
+          : defaultPath(url.path);
+        break;
+      }
+      case 'secure': {
+        cookie.secure = true;
+        break;
+      }
+      case 'httponly': {
+        cookie.httpOnly = true;
+        break;
+      }
+      case 'partitioned': {
+        cookie.partitioned = true;
+        break;
+      }
+      case 'samesite': {
+        const sameSite = SAME_SITE_VALUES[attrValue.toLowerCase()];
+        if (sameSite) {
+          cookie.sameSite = sameSite;
+        }
+        break;
+      }
+      case 'version': {
+        if (attrValue) {
+          cookie.version = attrValue;
+        }
+        break;
+      }
+      default: {
+        if (isToken(rawAttrName)) {
+          cookie.extensions ??= {};
+          cookie.extensions[rawAttrName] = attrEquals === -1 ? true : attrValue;
+        }
+      }
+    }
+  }
+
+  // Max-Age takes precedence over Expires (RFC 6265 §5.3 step 3)
+  if (cookie.maxAge !== undefined) {
+    const expiryTime =
+      cookie.maxAge <= 0
+        ? 0
+        : Math.min(Date.now() + cookie.maxAge * 1000, MAX_DATE_TIME);
+    expires = new Date(expiryTime).toISOString();
+  }
+  if (expires !== undefined) {
+    cookie.expires = expires;
+  }
+
+  const hostOnly = cookie.domain === undefined;
+  cookie.path ??= defaultPath(url.path);
+  cookie.domain ??= url.host;
+  return { cookie, hostOnly };
+}
+
+/**
+ * Split a raw Set-Cookie header value into individual cookie strings.
+ *
+ * Accepts multiple cookies separated by newlines (one header per line) as
+ * well as the comma-folded form produced when several Set-Cookie headers are
+ * joined into one field. Commas inside Expires dates are preserved.
+ */
+export function splitSetCookieHeader(value: string): string[] {
+  const headers: string[] = [];
+
+  for (const line of value.split(/\r?\n/)) {
+    let start = 0;
+    for (let i = line.indexOf(','); i !== -1; i = line.indexOf(',', i + 1)) {
+      // A comma starts a new cookie only if it is followed by "name="
+      if (/^[ \t]*[^=;,\s]+=/.test(line.slice(i + 1))) {
+        headers.push(line.slice(start, i));
+        start = i + 1;
+      }
+    }
+    headers.push(line.slice(start));
+  }
+
+  return headers.map(trimWhitespace).filter((header) => header.length > 0);
+}
+
+/**
+ * Parse a single Set-Cookie header received for a URL, marking the cookie
+ * `hostOnly` when it has no Domain attribute.
+ *
+ * @throws {NitroCookieError} PARSE_ERROR - Header has no name=value pair or an empty name
+ */
+export function parseResponseCookie(
+  header: string,
+  requestUrl: string
+): Cookie {
+  const { cookie, hostOnly } = parseSetCookieEntry(header, requestUrl);
+  return hostOnly ? { ...cookie, hostOnly } : cookie;
+}
+
+/**
+ * Parse a raw Set-Cookie header value that may contain several cookies.
+ * Cookies without a Domain attribute are marked `hostOnly`.
+ *
+ * @throws {NitroCookieError} PARSE_ERROR - Header is empty or any cookie in it is malformed
+ */
+export function parseSetCookieHeaders(
+  value: string,
+  requestUrl: string
+): Cookie[] {
+  const headers = splitSetCookieHeader(value);
+  if (headers.length === 0) {
+    throw parseError('Set-Cookie header is empty', requestUrl);
+  }
+  return headers.map((header) => parseResponseCookie(header, requestUrl));
+}
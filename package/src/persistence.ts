@@ -0,0 +1,202 @@
+/**
+ * Cookie persistence through app-provided storage
+ *
+ * Saves snapshots of chosen domains after every library mutation and
+ * restores them at startup, independently of when Android flushes
+ * CookieManager to disk or how iOS persists NSHTTPCookieStorage.
+ */
+
+import { subscribeToChanges } from './changes';
+import type { CookieChangeEvent, CookieStore } from './changes';
+import { withCookieErrorsAsync } from './errors';
+import type { NitroCookies } from './NitroCookies';
+import { parseSnapshot } from './snapshot';
+import type { CookieSnapshot } from './snapshot';
+import type { CookieImportResult } from './transfer';
+
+/**
+ * Storage for the snapshot of persisted cookies
+ */
+export interface CookiePersistenceAdapter {
+  /** Read the saved snapshot, or undefined if nothing was saved */
+  load(): Promise<CookieSnapshot | undefined>;
+
+  /** Replace the saved snapshot */
+  save(snapshot: CookieSnapshot): Promise<void>;
+
+  /** Delete the saved snapshot */
+  clear(): Promise<void>;
+}
+
+/**
+ * String key-value storage such as AsyncStorage or `localStorage`.
+ * Methods may be synchronous or return promises.
+ */
+export interface KeyValueStorage {
+  getItem(
+    key: string
+  ): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): void | Promise<void>;
+  /** Used by `clear` when available; otherwise an empty value is stored */
+  removeItem?(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for NitroCookies.enablePersistence
+ */
+export interface CookiePersistenceOptions {
+  /** Where the snapshot is stored */
+  adapter: CookiePersistenceAdapter;
+
+  /** Domains to persist, including their subdomains */
+  domains: string[];
+
+  /**
+   * Store to persist
+   * @default 'http'
+   */
+  store?: CookieStore;
+
+  /**
+   * Called when saving after a mutation fails
+   * @default console.error
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Handle returned by NitroCookies.enablePersistence
+ */
+export interface CookiePersistence {
+  /** Result of restoring the saved snapshot at startup */
+  restored: CookieImportResult;
+
+  /**
+   * Save the persisted domains now. Resolves once every mutation made
+   * before the call is saved.
+   */
+  save(): Promise<void>;
+
+  /** Stop saving after mutations. The saved snapshot is kept. */
+  stop(): void;
+}
+
+/**
+ * Adapter that keeps the snapshot in memory, for tests and previews
+ */
+export class MemoryPersistenceAdapter implements CookiePersistenceAdapter {
+  private json: string | undefined;
+
+  async load(): Promise<CookieSnapshot | undefined> {
+    return this.json === undefined ? undefined : parseSnapshot(this.json);
+  }
+
+  async save(snapshot: CookieSnapshot): Promise<void> {
+    this.json = JSON.stringify(snapshot);
+  }
+
+  async clear(): Promise<void> {
+    this.json = undefined;
+  }
+}
+
+/**
+ * Adapter that stores the snapshot as JSON under one key of a
+ * `getItem`/`setItem` storage
+ *
+ * @example
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * const adapter = new KeyValuePersistenceAdapter(AsyncStorage);
+ * ```
+ */
+export class KeyValuePersistenceAdapter implements CookiePersistenceAdapter {
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly key: string = 'react-native-nitro-cookies'
+  ) {}
+
+  /**
+   * @throws {NitroCookieError} PARSE_ERROR - The stored value is not a valid snapshot
+   */
+  async load(): Promise<CookieSnapshot | undefined> {
+    const json = await this.storage.getItem(this.key);
+    return json ? parseSnapshot(json) : undefined;
+  }
+
+  async save(snapshot: CookieSnapshot): Promise<void> {
+    await this.storage.setItem(this.key, JSON.stringify(snapshot));
+  }
+
+  async clear(): Promise<void> {
+    if (this.storage.removeItem) {
+      await this.storage.removeItem(this.key);
+    } else {
+      await this.storage.setItem(this.key, '');
+    }
+  }
+}
+
+/**
+ * The NitroCookies functions that persistence restores and saves through
+ */
+type SnapshotFunctions = Pick<
+  typeof NitroCookies,
+  'exportSnapshot' | 'importSnapshot'
+>;
+
+/**
+ * Restore the saved snapshot, then save the chosen domains after every
+ * mutation made through the library
+ */
+export async function startPersistence(
+  snapshots: SnapshotFunctions,
+  options: CookiePersistenceOptions
+): Promise<CookiePersistence> {
+  const { adapter, domains } = options;
+  const store = options.store ?? 'http';
+  const onError =
+    options.onError ??
+    ((error: unknown) =>
+      console.error('NitroCookies persistence failed:', error));
+
+  const snapshot = await adapter.load();
+  const restored: CookieImportResult = snapshot
+    ? await snapshots.importSnapshot(snapshot, { store })
+    : { imported: 0, skipped: 0, failures: [] };
+
+  // Saves run one at a time; mutations made while a save is queued share it
+  let queue: Promise<void> = Promise.resolve();
+  let queued: Promise<void> | undefined;
+  const save = (): Promise<void> => {
+    if (queued === undefined) {
+      const run = queue.then(() => {
+        queued = undefined;
+        return withCookieErrorsAsync({}, async () =>
+          adapter.save(await snapshots.exportSnapshot({ domains, store }))
+        );
+      });
+      queued = run;
+      queue = run.catch(() => {});
+    }
+    return queued;
+  };
+
+  const onChange = (event: CookieChangeEvent) => {
+    if (event.store === store) {
+      save().catch(onError);
+    }
+  };
+  const unsubscribers = domains.map((domain) =>
+    subscribeToChanges(onChange, { domain })
+  );
+
+  return {
+    restored,
+    save,
+    stop() {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+  };
+}
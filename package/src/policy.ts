@@ -0,0 +1,108 @@
+/**
+ * Domain policy for cookie writes
+ *
+ * Checked in the JavaScript layer before a cookie reaches the native store,
+ * so that app code and proxied responses can only write cookies for the
+ * domains the app has configured.
+ */
+
+import { NitroCookieError } from './errors';
+import { isMatchingDomain } from './matching';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+/**
+ * Domains that cookies may be written for
+ */
+export interface CookiePolicy {
+  /**
+   * Only allow cookies for these domains and their subdomains.
+   * Every domain is allowed if omitted.
+   */
+  allowDomains?: string[];
+
+  /**
+   * Never allow cookies for these domains and their subdomains, even if
+   * they are in `allowDomains`
+   */
+  denyDomains?: string[];
+
+  /**
+   * Let `setFromResponse(Sync)` store cookies for domains outside
+   * `allowDomains`, e.g. from an identity provider. `denyDomains` still
+   * applies.
+   * @default false
+   */
+  allowThirdPartyFromResponse?: boolean;
+}
+
+/**
+ * Where a cookie write comes from
+ *
+ * - `app`: `set`, `setSync`, `setMany(Sync)` and imports
+ * - `response`: `setFromResponse(Sync)`
+ */
+export type CookieWriteSource = 'app' | 'response';
+
+let policy: CookiePolicy = {};
+
+function normalizeDomains(domains: string[] | undefined): string[] | undefined {
+  return domains?.map((domain) => domain.replace(/^\./, '').toLowerCase());
+}
+
+function isListed(domains: string[], domain: string): boolean {
+  return domains.some((entry) => isMatchingDomain(`.${entry}`, domain));
+}
+
+/**
+ * Replace the domain policy. An empty policy allows every domain.
+ */
+export function setCookiePolicy(next: CookiePolicy): void {
+  policy = {
+    allowDomains: normalizeDomains(next.allowDomains),
+    denyDomains: normalizeDomains(next.denyDomains),
+    allowThirdPartyFromResponse: next.allowThirdPartyFromResponse === true,
+  };
+}
+
+/**
+ * Check that the domain policy allows storing a cookie for a URL.
+ *
+ * The cookie's domain is its Domain attribute, or the URL host for
+ * host-only cookies.
+ *
+ * @throws {NitroCookieError} POLICY_VIOLATION - The domain is denied or not allowed
+ * @throws {NitroCookieError} INVALID_URL - URL is malformed or missing protocol
+ */
+export function enforcePolicy(
+  url: string,
+  cookie: Cookie,
+  source: CookieWriteSource
+): void {
+  const { allowDomains, denyDomains, allowThirdPartyFromResponse } = policy;
+  if (allowDomains === undefined && denyDomains === undefined) {
+    return;
+  }
+
+  const domain = (
+    cookie.domain?.replace(/^\./, '') ?? parseRequestUrl(url).host
+  ).toLowerCase();
+  const violation = (reason: string) =>
+    new NitroCookieError(
+      CookieErrorCode.POLICY_VIOLATION,
+      `Cookie '${cookie.name}' for domain '${domain}' ${reason}`,
+      { url, cookieName: cookie.name }
+    );
+
+  if (denyDomains !== undefined && isListed(denyDomains, domain)) {
+    throw violation('is blocked by denyDomains');
+  }
+  if (
+    allowDomains !== undefined &&
+    !(source === 'response' && allowThirdPartyFromResponse) &&
+    !isListed(allowDomains, domain)
+  ) {
+    throw violation('is not in allowDomains');
+  }
+}
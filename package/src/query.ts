@@ -0,0 +1,145 @@
+/**
+ * Cookie queries used by `NitroCookies.find`
+ *
+ * Matching runs in JavaScript on the cookies returned by the native store, so
+ * every filter behaves the same on iOS, Android and in Jest.
+ */
+
+import type { CookieStore } from './changes';
+import { getExpiryTime, isMatchingPath } from './matching';
+import type { Cookie } from './types';
+
+/**
+ * Filters for `NitroCookies.find`. A cookie must match every given filter;
+ * an empty query matches every cookie.
+ */
+export interface CookieQuery {
+  /** Cookie domain, e.g. "example.com" (a leading dot is ignored) */
+  domain?: string;
+
+  /**
+   * Also match cookies set for subdomains of `domain`
+   * @default true
+   */
+  includeSubdomains?: boolean;
+
+  /** Exact cookie name, or a pattern tested against the name */
+  name?: string | RegExp;
+
+  /** Only cookies that would be sent to this request path (e.g. "/api") */
+  path?: string;
+
+  /** Match on the Secure attribute */
+  secure?: boolean;
+
+  /** Match on the HttpOnly attribute */
+  httpOnly?: boolean;
+
+  /** true for cookies without an expiry, false for persistent cookies */
+  session?: boolean;
+
+  /** Only persistent cookies expiring before this date */
+  expiresBefore?: Date;
+
+  /** Only persistent cookies expiring after this date */
+  expiresAfter?: Date;
+
+  /**
+   * Cookie store to search
+   * @default 'http'
+   */
+  store?: CookieStore;
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.replace(/^\./, '').toLowerCase();
+}
+
+function matchesDomain(cookie: Cookie, query: CookieQuery): boolean {
+  if (query.domain === undefined) {
+    return true;
+  }
+  if (cookie.domain === undefined) {
+    return false;
+  }
+  const domain = normalizeDomain(query.domain);
+  const cookieDomain = normalizeDomain(cookie.domain);
+  return (
+    cookieDomain === domain ||
+    (query.includeSubdomains !== false && cookieDomain.endsWith(`.${domain}`))
+  );
+}
+
+function matchesName(cookie: Cookie, name: string | RegExp): boolean {
+  if (typeof name === 'string') {
+    return cookie.name === name;
+  }
+  // Global and sticky patterns keep state between test() calls
+  name.lastIndex = 0;
+  return name.test(cookie.name);
+}
+
+/**
+ * Check whether a cookie matches every filter of a query
+ *
+ * @param now - Reference time for `maxAge` (defaults to the current time)
+ */
+export function matchesQuery(
+  cookie: Cookie,
+  query: CookieQuery,
+  now: number = Date.now()
+): boolean {
+  if (!matchesDomain(cookie, query)) {
+    return false;
+  }
+  if (query.name !== undefined && !matchesName(cookie, query.name)) {
+    return false;
+  }
+  if (
+    query.path !== undefined &&
+    !isMatchingPath(cookie.path ?? '/', query.path)
+  ) {
+    return false;
+  }
+  if (query.secure !== undefined && (cookie.secure === true) !== query.secure) {
+    return false;
+  }
+  if (
+    query.httpOnly !== undefined &&
+    (cookie.httpOnly === true) !== query.httpOnly
+  ) {
+    return false;
+  }
+
+  const expiresAt = getExpiryTime(cookie, now);
+  if (
+    query.session !== undefined &&
+    (expiresAt === undefined) !== query.session
+  ) {
+    return false;
+  }
+  if (
+    query.expiresBefore !== undefined &&
+    (expiresAt === undefined || expiresAt >= query.expiresBefore.getTime())
+  ) {
+    return false;
+  }
+  if (
+    query.expiresAfter !== undefined &&
+    (expiresAt === undefined || expiresAt <= query.expiresAfter.getTime())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * URL read by `find` on platforms without `getAll`, or undefined when the
+ * query has no domain to build one from
+ */
+export function getQueryUrl(query: CookieQuery): string | undefined {
+  if (query.domain === undefined) {
+    return undefined;
+  }
+  return `https://${normalizeDomain(query.domain)}${query.path ?? '/'}`;
+}
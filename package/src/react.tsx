@@ -0,0 +1,209 @@
+/**
+ * React integration
+ *
+ * Hooks that read cookies through the NitroCookies export and re-render when
+ * a cookie is changed through the library. Changes made outside the library
+ * (WebViews, the platform networking layer) are picked up on the next
+ * library mutation that affects the URL or when the URL changes.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import type { ReactNode } from 'react';
+import { subscribeToChanges } from './changes';
+import type { CookieChangeEvent } from './changes';
+import { NitroCookies } from './NitroCookies';
+import { isMatchingDomain } from './matching';
+import type { Cookie, Cookies } from './types';
+import { parseRequestUrl } from './url';
+
+/**
+ * Cookie attributes accepted by the `setCookie` function of `useCookie`
+ */
+export type CookieAttributes = Omit<Cookie, 'name' | 'value'>;
+
+/**
+ * Value returned by `useCookie`: the cookie (undefined if not set), a setter
+ * and a function that removes the cookie
+ */
+export type UseCookieResult = [
+  cookie: Cookie | undefined,
+  setCookie: (value: string, attributes?: CookieAttributes) => Promise<boolean>,
+  clearCookie: () => Promise<boolean>,
+];
+
+/**
+ * Props for CookieProvider
+ */
+export interface CookieProviderProps {
+  /**
+   * (iOS only) Read and write WKHTTPCookieStore instead of NSHTTPCookieStorage
+   * @default false
+   */
+  useWebKit?: boolean;
+
+  children?: ReactNode;
+}
+
+interface CookieConfig {
+  useWebKit: boolean;
+}
+
+const CookieContext = createContext<CookieConfig>({ useWebKit: false });
+
+/**
+ * Share cookie configuration with the hooks rendered below it.
+ *
+ * Hooks used outside a provider read and write NSHTTPCookieStorage on iOS.
+ *
+ * @example
+ * ```tsx
+ * <CookieProvider useWebKit>
+ *   <App />
+ * </CookieProvider>
+ * ```
+ */
+export function CookieProvider({
+  useWebKit = false,
+  children,
+}: CookieProviderProps) {
+  const config = useMemo(() => ({ useWebKit }), [useWebKit]);
+  return (
+    <CookieContext.Provider value={config}>{children}</CookieContext.Provider>
+  );
+}
+
+/**
+ * Check whether a change can affect the cookies read for a host. A removal
+ * by name can hit parent-domain cookies shared with other hosts, so only
+ * stored and evicted cookies are matched against the host.
+ */
+function affectsHost(event: CookieChangeEvent, host: string): boolean {
+  if (event.type === 'removed' || event.type === 'cleared') {
+    return true;
+  }
+  const domain = event.cookie.domain ?? parseRequestUrl(event.url).host;
+  return isMatchingDomain(domain, host);
+}
+
+function areCookiesEqual(a: Cookies, b: Cookies): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Read the cookies for a URL and re-render when they change.
+ *
+ * The NSHTTPCookieStorage/CookieManager store is read synchronously, so the
+ * first render already has the cookies. WebKit reads are asynchronous and
+ * start from an empty dictionary. Errors are rethrown during rendering so that
+ * an error boundary can handle them.
+ *
+ * @param url - The URL to read cookies for
+ * @returns Dictionary of cookies keyed by name
+ *
+ * @example
+ * ```tsx
+ * function CookieList() {
+ *   const cookies = useCookies('https://example.com');
+ *   return Object.values(cookies).map((cookie) => (
+ *     <Text key={cookie.name}>{cookie.name}={cookie.value}</Text>
+ *   ));
+ * }
+ * ```
+ */
+export function useCookies(url: string): Cookies {
+  const { useWebKit } = useContext(CookieContext);
+  const [cookies, setCookies] = useState<Cookies>(() =>
+    useWebKit ? {} : NitroCookies.getSync(url)
+  );
+  // Wrapped so that a failed read is distinguishable from no failure
+  const [failure, setFailure] = useState<{ error: unknown }>();
+
+  useEffect(() => {
+    let active = true;
+    let latestRequest = 0;
+
+    const update = (next: Cookies) => {
+      setCookies((previous) =>
+        areCookiesEqual(previous, next) ? previous : next
+      );
+    };
+
+    const refresh = () => {
+      if (!useWebKit) {
+        update(NitroCookies.getSync(url));
+        return;
+      }
+      // Ignore responses that arrive after a newer read has started
+      const request = ++latestRequest;
+      NitroCookies.get(url, true).then(
+        (next) => {
+          if (active && request === latestRequest) {
+            update(next);
+          }
+        },
+        (error: unknown) => {
+          if (active) {
+            setFailure({ error });
+          }
+        }
+      );
+    };
+
+    refresh();
+    const { host } = parseRequestUrl(url);
+    const unsubscribe = subscribeToChanges((event) => {
+      if (affectsHost(event, host)) {
+        refresh();
+      }
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [url, useWebKit]);
+
+  if (failure !== undefined) {
+    throw failure.error;
+  }
+  return cookies;
+}
+
+/**
+ * Read, set and clear a single cookie, re-rendering when it changes.
+ *
+ * @param url - The URL the cookie belongs to
+ * @param name - The cookie name
+ * @returns `[cookie, setCookie, clearCookie]`
+ *
+ * @example
+ * ```tsx
+ * function ThemeToggle() {
+ *   const [theme, setTheme] = useCookie('https://example.com', 'theme');
+ *   const next = theme?.value === 'dark' ? 'light' : 'dark';
+ *   return <Button title={next} onPress={() => setTheme(next, { path: '/' })} />;
+ * }
+ * ```
+ */
+export function useCookie(url: string, name: string): UseCookieResult {
+  const { useWebKit } = useContext(CookieContext);
+  const cookie = useCookies(url)[name];
+
+  const setCookie = useCallback(
+    (value: string, attributes?: CookieAttributes) =>
+      NitroCookies.set(url, { ...attributes, name, value }, useWebKit),
+    [url, name, useWebKit]
+  );
+  const clearCookie = useCallback(
+    () => NitroCookies.clearByName(url, name, useWebKit),
+    [url, name, useWebKit]
+  );
+
+  return [cookie, setCookie, clearCookie];
+}
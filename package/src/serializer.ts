@@ -0,0 +1,116 @@
+/**
+ * Cookie serialization helpers
+ *
+ * Builds Set-Cookie lines and Cookie request-header values from the Cookie
+ * type, for attaching cookies to transports that do not go through the
+ * native cookie store.
+ */
+
+import type { Cookie, Cookies } from './types';
+import { validateCookie } from './validation';
+
+/**
+ * Serialize a cookie into a Set-Cookie header value.
+ *
+ * Attributes are emitted in the same order as the native write paths.
+ * An `expires` value that is not a valid date is omitted.
+ *
+ * @param cookie - The cookie to serialize
+ * @returns A Set-Cookie header value
+ * @throws {NitroCookieError} INVALID_COOKIE - Cookie attributes are invalid
+ *
+ * @example
+ * ```typescript
+ * serializeCookie({ name: 'session', value: 'abc', path: '/', secure: true });
+ * // 'session=abc; Path=/; Secure'
+ * ```
+ */
+export function serializeCookie(cookie: Cookie): string {
+  validateCookie(cookie);
+
+  const parts = [`${cookie.name}=${cookie.value}`];
+
+  if (cookie.path !== undefined) {
+    parts.push(`Path=${cookie.path}`);
+  }
+  if (cookie.domain !== undefined) {
+    parts.push(`Domain=${cookie.domain}`);
+  }
+  if (cookie.expires !== undefined) {
+    const expires = new Date(cookie.expires);
+    if (!Number.isNaN(expires.getTime())) {
+      parts.push(`Expires=${expires.toUTCString()}`);
+    }
+  }
+  if (cookie.maxAge !== undefined) {
+    parts.push(`Max-Age=${cookie.maxAge}`);
+  }
+  if (cookie.secure === true) {
+    parts.push('Secure');
+  }
+  if (cookie.httpOnly === true) {
+    parts.push('HttpOnly');
+  }
+  if (cookie.sameSite !== undefined) {
+    parts.push(`SameSite=${cookie.sameSite}`);
+  }
+  if (cookie.partitioned === true) {
+    parts.push('Partitioned');
+  }
+  for (const [name, value] of Object.entries(cookie.extensions ?? {})) {
+    parts.push(value === true ? name : `${name}=${value}`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Build a Cookie request-header value from a list or dictionary of cookies.
+ *
+ * Only names and values are included; attributes are not sent in requests.
+ *
+ * @param cookies - Cookies as returned by `get`/`getSync`, or an array
+ * @returns A Cookie header value (e.g. "a=1; b=2"), empty if there are no cookies
+ *
+ * @example
+ * ```typescript
+ * const cookies = NitroCookies.getSync('https://example.com');
+ * socket.send({ headers: { Cookie: toCookieHeader(cookies) } });
+ * ```
+ */
+export function toCookieHeader(cookies: Cookies | Cookie[]): string {
+  const list = Array.isArray(cookies) ? cookies : Object.values(cookies);
+  return list.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ');
+}
+
+/**
+ * Parse a Cookie request-header value into a cookie dictionary.
+ *
+ * Pairs without "=" or with an empty name are skipped. When a name appears
+ * more than once, the first occurrence wins, since user agents send the most
+ * specific cookie first.
+ *
+ * @param header - A Cookie header value (e.g. "a=1; b=2")
+ * @returns Dictionary of cookies keyed by name, containing only name and value
+ *
+ * @example
+ * ```typescript
+ * parseCookieHeader('session=abc; theme=dark');
+ * // { session: { name: 'session', value: 'abc' }, theme: { name: 'theme', value: 'dark' } }
+ * ```
+ */
+export function parseCookieHeader(header: string): Cookies {
+  const result: Cookies = {};
+  for (const pair of header.split(';')) {
+    const equals = pair.indexOf('=');
+    if (equals === -1) {
+      continue;
+    }
+    const name = pair.slice(0, equals).trim();
+    const value = pair.slice(equals + 1).trim();
+    if (name && !(name in result)) {
+      result[name] = { name, value };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,163 @@
+/**
+ * Versioned JSON snapshots of the cookie store
+ *
+ * Snapshots are plain JSON documents, so they can be written to a file,
+ * sent with a bug report or moved to another device and imported there with
+ * `NitroCookies.importSnapshot`.
+ */
+
+import type { CookieStore } from './changes';
+import { NitroCookieError } from './errors';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * JSON document produced by `exportSnapshot`
+ */
+export interface CookieSnapshot {
+  /** Snapshot format version */
+  version: typeof SNAPSHOT_VERSION;
+
+  /** Export time in ISO 8601 format */
+  exportedAt: string;
+
+  /** Store the cookies were read from */
+  store: CookieStore;
+
+  /** Exported cookies, with absolute `expires` dates */
+  cookies: Cookie[];
+}
+
+const COOKIE_FIELD_TYPES: Record<keyof Cookie, string> = {
+  name: 'string',
+  value: 'string',
+  path: 'string',
+  domain: 'string',
+  hostOnly: 'boolean',
+  version: 'string',
+  expires: 'string',
+  maxAge: 'number',
+  secure: 'boolean',
+  httpOnly: 'boolean',
+  sameSite: 'string',
+  partitioned: 'boolean',
+  extensions: 'object',
+};
+
+const SAME_SITE_VALUES: readonly unknown[] = ['Strict', 'Lax', 'None'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidSnapshot(message: string, cause?: unknown): NitroCookieError {
+  return new NitroCookieError(
+    CookieErrorCode.PARSE_ERROR,
+    `Invalid cookie snapshot: ${message}`,
+    { cause }
+  );
+}
+
+/**
+ * Build a snapshot document from exported cookies
+ */
+export function createSnapshot(
+  cookies: Cookie[],
+  store: CookieStore,
+  now: number = Date.now()
+): CookieSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    store,
+    cookies: cookies.map((cookie) => ({ ...cookie })),
+  };
+}
+
+/**
+ * Check that a snapshot entry has the shape of a Cookie. Unknown fields are
+ * dropped.
+ *
+ * @throws {NitroCookieError} INVALID_COOKIE - Missing name, value or domain, or a field of the wrong type
+ */
+export function parseSnapshotCookie(entry: unknown): Cookie {
+  const name = isRecord(entry) ? entry.name : undefined;
+  const cookieName = typeof name === 'string' ? name : undefined;
+  const invalid = (message: string) =>
+    new NitroCookieError(CookieErrorCode.INVALID_COOKIE, message, {
+      cookieName,
+    });
+
+  if (!isRecord(entry)) {
+    throw invalid('Snapshot cookie must be an object');
+  }
+  for (const field of ['name', 'value', 'domain'] as const) {
+    if (typeof entry[field] !== 'string') {
+      throw invalid(`Snapshot cookie is missing '${field}'`);
+    }
+  }
+  const cookie: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(entry)) {
+    const type = COOKIE_FIELD_TYPES[field as keyof Cookie];
+    if (value === undefined || type === undefined) {
+      continue;
+    }
+    if (
+      typeof value !== type ||
+      (field === 'sameSite' && !SAME_SITE_VALUES.includes(value)) ||
+      (field === 'extensions' &&
+        (!isRecord(value) ||
+          !Object.values(value).every(
+            (extension) => typeof extension === 'string' || extension === true
+          )))
+    ) {
+      throw invalid(`Snapshot cookie has invalid '${field}'`);
+    }
+    cookie[field] = value;
+  }
+  return cookie as unknown as Cookie;
+}
+
+/**
+ * Validate a snapshot document or its JSON text.
+ *
+ * Only the document structure is checked here; cookies are checked one by
+ * one on import so that a bad entry doesn't fail the whole snapshot.
+ *
+ * @throws {NitroCookieError} PARSE_ERROR - Not JSON, unsupported version or malformed document
+ */
+export function parseSnapshot(input: CookieSnapshot | string): CookieSnapshot {
+  let document: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch (error) {
+      throw invalidSnapshot('not valid JSON', error);
+    }
+  }
+
+  if (!isRecord(document)) {
+    throw invalidSnapshot('expected an object');
+  }
+  if (document.version !== SNAPSHOT_VERSION) {
+    throw invalidSnapshot(`unsupported version '${String(document.version)}'`);
+  }
+  if (
+    typeof document.exportedAt !== 'string' ||
+    Number.isNaN(Date.parse(document.exportedAt))
+  ) {
+    throw invalidSnapshot("'exportedAt' must be an ISO 8601 date");
+  }
+  if (document.store !== 'http' && document.store !== 'webkit') {
+    throw invalidSnapshot("'store' must be 'http' or 'webkit'");
+  }
+  if (!Array.isArray(document.cookies)) {
+    throw invalidSnapshot("'cookies' must be an array");
+  }
+  return document as unknown as CookieSnapshot;
+}
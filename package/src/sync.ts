@@ -0,0 +1,165 @@
+/**
+ * Comparison of the HTTP and WebKit cookie stores
+ *
+ * On iOS, `useWebKit` selects WKHTTPCookieStore instead of
+ * NSHTTPCookieStorage. The two stores are not kept in sync by the system, so
+ * cookies received by native requests are not always visible to WebViews.
+ */
+
+import type { CookieStore } from './changes';
+import type { Cookie, CookieError } from './types';
+
+/**
+ * Selects the cookies compared by verifyStores and copied by syncStores
+ */
+export interface CookieStoreSelection {
+  /**
+   * Only cookies for these domains and their subdomains.
+   * All cookies are selected if omitted.
+   */
+  domains?: string[];
+
+  /** Only cookies with these names */
+  names?: string[];
+}
+
+/**
+ * Options for syncStores
+ */
+export interface CookieSyncOptions extends CookieStoreSelection {
+  /** Store to copy from */
+  from: CookieStore;
+
+  /**
+   * Store to copy to
+   * @default the other store
+   */
+  to?: CookieStore;
+
+  /**
+   * `oneway` copies cookies that are missing from `to` or have a different
+   * value there. `merge` also copies cookies that only exist in `to` back
+   * to `from`; values in `from` win conflicts.
+   * @default 'oneway'
+   */
+  direction?: 'oneway' | 'merge';
+}
+
+/**
+ * A cookie that could not be copied
+ */
+export interface CookieSyncFailure {
+  /** The cookie that was being copied */
+  cookie: Cookie;
+
+  /** Store the cookie was being written to */
+  store: CookieStore;
+
+  /** Why the cookie could not be written */
+  error: CookieError;
+}
+
+/**
+ * Result of syncStores
+ */
+export interface CookieSyncResult {
+  /** Number of cookies written */
+  copied: number;
+
+  /** Cookies that could not be written */
+  failures: CookieSyncFailure[];
+}
+
+/**
+ * Result of verifyStores
+ */
+export interface CookieStoreReport {
+  /** True when no cookie is missing or different */
+  inSync: boolean;
+
+  /** Cookies in the WebKit store only */
+  missingFromHttp: Cookie[];
+
+  /** Cookies in the HTTP store only */
+  missingFromWebKit: Cookie[];
+
+  /** Cookies in both stores with different values */
+  valueMismatches: Array<{ http: Cookie; webkit: Cookie }>;
+}
+
+/**
+ * Identity of a cookie within a store (RFC 6265 §5.3 step 11)
+ */
+function getCookieKey(cookie: Cookie): string {
+  return [cookie.name, cookie.domain?.toLowerCase(), cookie.path ?? '/'].join(
+    '\0'
+  );
+}
+
+/**
+ * Keep the cookies with one of the given names
+ */
+export function filterByNames(
+  cookies: Cookie[],
+  names: string[] | undefined
+): Cookie[] {
+  return names === undefined
+    ? cookies
+    : cookies.filter((cookie) => names.includes(cookie.name));
+}
+
+interface CookieDiff {
+  /** Cookies missing from the target store */
+  onlyInSource: Cookie[];
+
+  /** Cookies missing from the source store */
+  onlyInTarget: Cookie[];
+
+  /** Cookies in both stores with different values, source first */
+  changed: Array<[Cookie, Cookie]>;
+}
+
+/**
+ * Match the cookies of two stores by name, domain and path
+ */
+export function diffCookies(source: Cookie[], target: Cookie[]): CookieDiff {
+  const targetByKey = new Map(
+    target.map((cookie) => [getCookieKey(cookie), cookie])
+  );
+  const diff: CookieDiff = { onlyInSource: [], onlyInTarget: [], changed: [] };
+
+  for (const cookie of source) {
+    const key = getCookieKey(cookie);
+    const other = targetByKey.get(key);
+    if (other === undefined) {
+      diff.onlyInSource.push(cookie);
+    } else if (other.value !== cookie.value) {
+      diff.changed.push([cookie, other]);
+    }
+    targetByKey.delete(key);
+  }
+  diff.onlyInTarget.push(...targetByKey.values());
+  return diff;
+}
+
+/**
+ * Compare the cookies read from the HTTP and WebKit stores
+ */
+export function compareStores(
+  http: Cookie[],
+  webkit: Cookie[]
+): CookieStoreReport {
+  const { onlyInSource, onlyInTarget, changed } = diffCookies(http, webkit);
+  return {
+    inSync:
+      onlyInSource.length === 0 &&
+      onlyInTarget.length === 0 &&
+      changed.length === 0,
+    missingFromHttp: onlyInTarget,
+    missingFromWebKit: onlyInSource,
+    valueMismatches: changed.map(([httpCookie, webkitCookie]) => ({
+      http: httpCookie,
+      webkit: webkitCookie,
+    })),
+  };
+}
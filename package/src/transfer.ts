@@ -0,0 +1,88 @@
+/**
+ * Options and results shared by the cookie import and export formats
+ * (JSON snapshots, Netscape cookies.txt, HAR)
+ */
+
+import type { CookieStore } from './changes';
+import type { Cookie, CookieError } from './types';
+
+/**
+ * Options for exportSnapshot, exportNetscape and exportHarCookies
+ */
+export interface CookieExportOptions {
+  /**
+   * Only export cookies for these domains and their subdomains.
+   * All cookies are exported if omitted.
+   */
+  domains?: string[];
+
+  /**
+   * Store to export
+   * @default 'http'
+   */
+  store?: CookieStore;
+}
+
+/**
+ * Options for importSnapshot, importNetscape and importHar
+ */
+export interface CookieImportOptions {
+  /**
+   * `merge` keeps existing cookies that are not in the input; `replace`
+   * clears the store first
+   * @default 'merge'
+   */
+  mode?: 'merge' | 'replace';
+
+  /**
+   * Skip cookies that have already expired. When false, they are written
+   * and remove the matching stored cookies.
+   * @default true
+   */
+  skipExpired?: boolean;
+
+  /**
+   * Store to import into
+   * @default the store a snapshot was exported from, otherwise 'http'
+   */
+  store?: CookieStore;
+}
+
+/**
+ * An imported cookie that could not be written
+ */
+export interface CookieImportFailure {
+  /**
+   * Position of the cookie in the input: its index in `snapshot.cookies`,
+   * its 1-based line number in a cookies.txt file, or the index of its
+   * entry in a HAR `log.entries`
+   */
+  index: number;
+
+  /** Cookie name, if the entry has one */
+  name?: string;
+
+  /** Why the cookie could not be imported */
+  error: CookieError;
+}
+
+/**
+ * Result of importSnapshot, importNetscape and importHar
+ */
+export interface CookieImportResult {
+  /** Number of cookies written */
+  imported: number;
+
+  /** Number of expired cookies skipped */
+  skipped: number;
+
+  /** Cookies that could not be imported */
+  failures: CookieImportFailure[];
+}
+
+/**
+ * A cookie read from an import format, or the reason it could not be read
+ */
+export type CookieImportEntry =
+  | { index: number; cookie: Cookie }
+  | CookieImportFailure;
@@ -5,6 +5,11 @@
  * for the Nitro-based cookie management library.
  */
 
+/**
+ * SameSite attribute values (RFC 6265bis)
+ */
+export type CookieSameSite = 'Strict' | 'Lax' | 'None';
+
 /**
  * Represents an HTTP cookie with all RFC 6265 attributes
  */
@@ -31,6 +36,15 @@ export interface Cookie {
    */
   domain?: string;
 
+  /**
+   * If true, cookie is only sent to the exact URL host, not its subdomains.
+   * Set for cookies whose Set-Cookie header has no Domain attribute. A
+   * host-only cookie is always stored for the URL host, whatever its `domain`.
+   * Not reported by Android reads.
+   * @default false
+   */
+  hostOnly?: boolean;
+
   /**
    * Cookie version (rarely used, for RFC 2109 compatibility)
    */
@@ -42,6 +56,12 @@ export interface Cookie {
    */
   expires?: string;
 
+  /**
+   * Lifetime in seconds (Max-Age). Takes precedence over `expires`.
+   * Zero or a negative value expires the cookie immediately.
+   */
+  maxAge?: number;
+
   /**
    * If true, cookie only sent over HTTPS connections
    * @default false
@@ -53,6 +73,28 @@ export interface Cookie {
    * @default false
    */
   httpOnly?: boolean;
+
+  /**
+   * Controls whether the cookie is sent with cross-site requests.
+   * `'None'` requires `secure: true`.
+   * Omit to use the platform default.
+   */
+  sameSite?: CookieSameSite;
+
+  /**
+   * If true, cookie is stored in a partitioned (CHIPS) jar keyed by the
+   * top-level site. Requires `secure: true`. Not reported by iOS reads.
+   * @default false
+   */
+  partitioned?: boolean;
+
+  /**
+   * Set-Cookie attributes not modeled above (e.g. `Priority=High`), keyed by
+   * attribute name as received. Attributes without a value are `true`.
+   * Written back out verbatim on Android. iOS drops them, since Foundation
+   * only stores the attributes it models, so reads there never return them.
+   */
+  extensions?: Record<string, string | true>;
 }
 
 /**
@@ -79,6 +121,14 @@ export enum CookieErrorCode {
   NETWORK_ERROR = 'NETWORK_ERROR',
   /** Platform storage operation failed */
   STORAGE_ERROR = 'STORAGE_ERROR',
+  /** Cookie attributes are invalid or inconsistent */
+  INVALID_COOKIE = 'INVALID_COOKIE',
+  /** Cookie domain is not allowed by the configured policy */
+  POLICY_VIOLATION = 'POLICY_VIOLATION',
+  /** Cookie exceeds the configured size or count limits */
+  LIMIT_EXCEEDED = 'LIMIT_EXCEEDED',
+  /** Method was called with an unsupported argument */
+  INVALID_ARGUMENT = 'INVALID_ARGUMENT',
 }
 
 /**
@@ -97,3 +147,45 @@ export interface CookieError extends Error {
   /** Cookie name that caused the error (if applicable) */
   cookieName?: string;
 }
+
+/**
+ * Result of setting one cookie with `setMany`/`setManySync`
+ */
+export interface CookieSetResult {
+  /** Name of the cookie */
+  name: string;
+
+  /** true if the cookie was stored */
+  success: boolean;
+
+  /** Why the cookie was not stored */
+  error?: CookieError;
+}
+
+/**
+ * Result of reading the cookies of one URL with `getMany`/`getManySync`
+ */
+export interface CookieGetResult {
+  /** The URL that was read */
+  url: string;
+
+  /** Cookies for the URL (empty if the read failed) */
+  cookies: Cookies;
+
+  /** Why the cookies could not be read */
+  error?: CookieError;
+}
+
+/**
+ * Result of clearing one cookie with `clearByNames`/`clearByNamesSync`
+ */
+export interface CookieClearResult {
+  /** Name of the cookie */
+  name: string;
+
+  /** true if the cookie was found and removed */
+  removed: boolean;
+
+  /** Why the cookie could not be cleared */
+  error?: CookieError;
+}
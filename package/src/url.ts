@@ -0,0 +1,64 @@
+/**
+ * Minimal URL parsing for cookie operations
+ *
+ * React Native's global `URL` is a regex-based polyfill that performs no
+ * validation, so cookie code parses request URLs here with the same rules the
+ * native modules enforce (http/https only, host required).
+ */
+
+import { NitroCookieError } from './errors';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+
+/**
+ * Components of a request URL relevant to cookie handling
+ */
+export interface RequestUrl {
+  /** Scheme without the trailing colon ("http" or "https") */
+  protocol: 'http' | 'https';
+
+  /** Lowercased host name without port */
+  host: string;
+
+  /** URL path, always starting with "/" */
+  path: string;
+}
+
+const URL_PATTERN =
+  /^([a-zA-Z][a-zA-Z\d+\-.]*):\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)(?::(\d*))?([^?#]*)/;
+
+/**
+ * Parse a request URL, rejecting anything the native modules would reject.
+ *
+ * @throws {NitroCookieError} INVALID_URL - URL is malformed, missing protocol or host
+ */
+export function parseRequestUrl(url: string): RequestUrl {
+  const match = URL_PATTERN.exec(url.trim());
+  const protocol = match?.[1]?.toLowerCase();
+  const host = match?.[2]?.toLowerCase();
+
+  if (!match || (protocol !== 'http' && protocol !== 'https') || !host) {
+    throw new NitroCookieError(
+      CookieErrorCode.INVALID_URL,
+      `Invalid URL: '${url}'. URLs must include protocol (http:// or https://)`,
+      { url }
+    );
+  }
+
+  const path = match[4] ?? '';
+  return {
+    protocol,
+    host,
+    path: path.startsWith('/') ? path : '/',
+  };
+}
+
+/**
+ * Build a URL that a cookie read from a store can be written back through:
+ * https, the cookie domain without its leading dot, and the cookie path.
+ */
+export function getCookieUrl(cookie: Pick<Cookie, 'domain' | 'path'>): string {
+  const host = (cookie.domain ?? '').replace(/^\./, '');
+  const path = cookie.path?.startsWith('/') ? cookie.path : '/';
+  return `https://${host}${path}`;
+}
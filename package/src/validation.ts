@@ -0,0 +1,220 @@
+/**
+ * Cookie validation shared by every write path
+ *
+ * Runs in the JavaScript layer before a cookie crosses JSI so that iOS and
+ * Android reject exactly the same inputs.
+ */
+
+import { NitroCookieError } from './errors';
+import { isMatchingDomain } from './matching';
+import { CookieErrorCode } from './types';
+import type { Cookie } from './types';
+import { parseRequestUrl } from './url';
+
+/** Attribute names modeled by Cookie fields, which extensions must not shadow */
+const RESERVED_ATTRIBUTES = new Set([
+  'path',
+  'domain',
+  'version',
+  'expires',
+  'max-age',
+  'secure',
+  'httponly',
+  'samesite',
+  'partitioned',
+]);
+
+// token = 1*<any CHAR except CTLs or separators> (RFC 2616 §2.2)
+const TOKEN_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// Names, values and extension values may not end the attribute or inject a
+// new header line
+const CONTROL_CHARS = '\\x00-\\x1F\\x7F';
+const ATTRIBUTE_VALUE_PATTERN = new RegExp(`^[^${CONTROL_CHARS};]*$`);
+
+// cookie-octet = %x21 / %x23-2B / %x2D-3A / %x3C-5B / %x5D-7E (RFC 6265 §4.1.1)
+const COOKIE_OCTETS = '[\\x21\\x23-\\x2B\\x2D-\\x3A\\x3C-\\x5B\\x5D-\\x7E]';
+const COOKIE_OCTET = new RegExp(COOKIE_OCTETS);
+// cookie-value = *cookie-octet / ( DQUOTE *cookie-octet DQUOTE )
+const COOKIE_VALUE_PATTERN = new RegExp(
+  `^(?:${COOKIE_OCTETS}*|"${COOKIE_OCTETS}*")$`
+);
+const TOKEN_CHAR = /[!#$%&'*+\-.^_`|~0-9A-Za-z]/;
+
+/**
+ * How cookie names and values outside the RFC 6265 grammar are handled
+ *
+ * - `off`: pass them to the native store unchanged, except `;` and control
+ *   characters, which are always rejected
+ * - `strict`: reject the cookie with INVALID_COOKIE
+ * - `lenient`: percent-encode the characters outside the grammar. Reads
+ *   return the encoded text, and since `%` itself is not encoded, decoding
+ *   it can't reliably restore the original.
+ */
+export type CookieValidationMode = 'off' | 'strict' | 'lenient';
+
+let validationMode: CookieValidationMode = 'off';
+
+/**
+ * Set how cookie names and values outside the RFC 6265 grammar are handled
+ */
+export function setValidationMode(mode: CookieValidationMode): void {
+  validationMode = mode;
+}
+
+function invalidCookie(cookie: Cookie, message: string): NitroCookieError {
+  return new NitroCookieError(CookieErrorCode.INVALID_COOKIE, message, {
+    cookieName: cookie.name,
+  });
+}
+
+/**
+ * Check whether a string is an HTTP token (valid cookie or attribute name)
+ */
+export function isToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Validate cookie attributes before writing to the native store.
+ *
+ * @throws {NitroCookieError} INVALID_COOKIE - The name or value contains `;` or control
+ *   characters, attributes are invalid (e.g. non-integer maxAge,
+ *   malformed extension attributes) or inconsistent (e.g. SameSite=None or
+ *   Partitioned without Secure)
+ */
+export function validateCookie(cookie: Cookie): void {
+  // Checked in every validation mode: Android writes name=value into the
+  // Set-Cookie line unescaped, where these would add attributes
+  if (!ATTRIBUTE_VALUE_PATTERN.test(cookie.name)) {
+    throw invalidCookie(
+      cookie,
+      `Cookie name '${cookie.name}' contains ';' or control characters`
+    );
+  }
+  if (!ATTRIBUTE_VALUE_PATTERN.test(cookie.value)) {
+    throw invalidCookie(
+      cookie,
+      `Cookie '${cookie.name}' has a value with ';' or control characters`
+    );
+  }
+
+  if (cookie.maxAge !== undefined && !Number.isSafeInteger(cookie.maxAge)) {
+    throw invalidCookie(
+      cookie,
+      `Cookie '${cookie.name}' has invalid maxAge '${cookie.maxAge}'. maxAge must be a whole number of seconds`
+    );
+  }
+
+  if (cookie.sameSite === 'None' && cookie.secure !== true) {
+    throw invalidCookie(
+      cookie,
+      `Cookie '${cookie.name}' uses SameSite=None and must also be secure`
+    );
+  }
+
+  if (cookie.partitioned === true && cookie.secure !== true) {
+    throw invalidCookie(
+      cookie,
+      `Cookie '${cookie.name}' is partitioned and must also be secure`
+    );
+  }
+
+  for (const [name, value] of Object.entries(cookie.extensions ?? {})) {
+    if (!isToken(name) || RESERVED_ATTRIBUTES.has(name.toLowerCase())) {
+      throw invalidCookie(
+        cookie,
+        `Cookie '${cookie.name}' has invalid extension attribute name '${name}'`
+      );
+    }
+    if (value !== true && !ATTRIBUTE_VALUE_PATTERN.test(value)) {
+      throw invalidCookie(
+        cookie,
+        `Cookie '${cookie.name}' has invalid value for extension attribute '${name}'`
+      );
+    }
+  }
+}
+
+/**
+ * Check that a cookie's domain matches the URL host (RFC 6265 §5.3 step 6),
+ * with the same rule the native stores apply when the cookie is written.
+ * Host-only cookies are stored for the URL host and always match.
+ *
+ * @throws {NitroCookieError} DOMAIN_MISMATCH - Cookie domain doesn't match the URL host
+ */
+export function validateCookieDomain(url: string, cookie: Cookie): void {
+  const { host } = parseRequestUrl(url);
+  if (
+    cookie.hostOnly !== true &&
+    cookie.domain !== undefined &&
+    !isMatchingDomain(cookie.domain, host)
+  ) {
+    throw new NitroCookieError(
+      CookieErrorCode.DOMAIN_MISMATCH,
+      `Cookie domain '${cookie.domain}' does not match URL host '${host}'`,
+      { url, cookieName: cookie.name }
+    );
+  }
+}
+
+// Percent-encode the UTF-8 bytes of every character the pattern rejects
+function percentEncode(text: string, allowed: RegExp): string {
+  let result = '';
+  for (const char of text) {
+    if (allowed.test(char)) {
+      result += char;
+    } else if (char.charCodeAt(0) < 0x80) {
+      const hex = char.charCodeAt(0).toString(16).toUpperCase();
+      result += `%${hex.padStart(2, '0')}`;
+    } else {
+      // Lone surrogates can't be encoded as UTF-8
+      result +=
+        char.length === 1 && char >= '\uD800' && char <= '\uDFFF'
+          ? '%EF%BF%BD'
+          : encodeURIComponent(char);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check a cookie's name against the token grammar and its value against the
+ * cookie-value grammar of RFC 6265 §4.1.1 before it is written to the
+ * native store.
+ *
+ * In lenient mode, characters outside the grammar are percent-encoded
+ * instead of rejected. Nothing is checked while validation is off;
+ * `validateCookie` still rejects `;` and control characters.
+ *
+ * @returns The cookie, or a copy with an encoded name and value
+ * @throws {NitroCookieError} INVALID_COOKIE - The name is empty, or (in strict mode) the name
+ *   or value contains characters outside the grammar
+ */
+export function normalizeNameAndValue(cookie: Cookie): Cookie {
+  if (validationMode === 'off') {
+    return cookie;
+  }
+  if (cookie.name === '') {
+    throw invalidCookie(cookie, 'Cookie name must not be empty');
+  }
+  const validName = isToken(cookie.name);
+  const validValue = COOKIE_VALUE_PATTERN.test(cookie.value);
+  if (validName && validValue) {
+    return cookie;
+  }
+  if (validationMode === 'strict') {
+    throw invalidCookie(
+      cookie,
+      validName
+        ? `Cookie '${cookie.name}' has a value with characters that are not allowed in cookie values`
+        : `Cookie name '${cookie.name}' contains characters that are not allowed in cookie names`
+    );
+  }
+  return {
+    ...cookie,
+    name: validName ? cookie.name : percentEncode(cookie.name, TOKEN_CHAR),
+    value: validValue
+      ? cookie.value
+      : percentEncode(cookie.value, COOKIE_OCTET),
+  };
+}